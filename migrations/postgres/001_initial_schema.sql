@@ -0,0 +1,158 @@
+-- Shade indexer schema (PostgreSQL), version 1. Applied by `npm run migrate` (src/db/migrate.ts).
+-- Every statement is idempotent, so databases set up by hand from the old shade.sql take it as-is.
+-- commitments: indexer writes; merkle proof + utxos routes read.
+-- indexer_cursors: backfill checkpoint per program.
+-- indexer_repairs: audit log of gaps repaired against on-chain nextIndex.
+-- nullifiers: spent nullifiers (PDA + value) from transact instructions; /nullifiers/check reads.
+-- indexer_leases: single-writer lease so only one indexer process writes.
+-- indexer_status: heartbeat of the lease holder; /indexer/status reads.
+
+CREATE TABLE IF NOT EXISTS commitments (
+  id BIGSERIAL PRIMARY KEY,
+  token TEXT NOT NULL DEFAULT 'sol',
+  commitment_index BIGINT NOT NULL,
+  commitment TEXT NOT NULL UNIQUE,
+  encrypted_output TEXT NOT NULL,
+  mint_address TEXT,
+  transaction_signature TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Slot the commitment's transaction landed in, and its finality: confirmed -> finalized, or
+-- orphaned when the transaction's fork was dropped (orphaned rows are never served)
+ALTER TABLE commitments ADD COLUMN IF NOT EXISTS slot BIGINT;
+ALTER TABLE commitments ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'confirmed'
+  CHECK (status IN ('confirmed', 'finalized', 'orphaned'));
+
+-- Composite (token, commitment_index) for range and token queries; INCLUDE for index-only scans
+CREATE INDEX IF NOT EXISTS idx_commitments_token_index ON commitments (token, commitment_index)
+  INCLUDE (commitment, encrypted_output);
+CREATE INDEX IF NOT EXISTS idx_commitments_encrypted ON commitments (encrypted_output);
+
+-- Unique on (transaction_signature, commitment) so we don't insert the same commitment from the same tx twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commitments_tx_commitment
+  ON commitments (transaction_signature, commitment)
+  WHERE transaction_signature IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_commitments_transaction_signature ON commitments (transaction_signature);
+
+-- Finality pass scans confirmed rows by slot
+CREATE INDEX IF NOT EXISTS idx_commitments_confirmed_slot ON commitments (slot) WHERE status = 'confirmed';
+
+-- Auto-update updated_at
+CREATE OR REPLACE FUNCTION update_updated_at()
+RETURNS TRIGGER AS $$ BEGIN NEW.updated_at = now(); RETURN NEW; END; $$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS commitments_updated_at ON commitments;
+CREATE TRIGGER commitments_updated_at BEFORE UPDATE ON commitments FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE commitments ENABLE ROW LEVEL SECURITY;
+
+-- Indexer backfill checkpoint, one row per program. last_* is the newest signature below which
+-- history is fully indexed; backfill_* tracks an in-progress walk so restarts resume it.
+CREATE TABLE IF NOT EXISTS indexer_cursors (
+  program_id TEXT PRIMARY KEY,
+  last_signature TEXT,
+  last_slot BIGINT,
+  backfill_tip_signature TEXT,
+  backfill_tip_slot BIGINT,
+  backfill_before_signature TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS indexer_cursors_updated_at ON indexer_cursors;
+CREATE TRIGGER indexer_cursors_updated_at BEFORE UPDATE ON indexer_cursors FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE indexer_cursors ENABLE ROW LEVEL SECURITY;
+
+-- Gap repairs: one row per gap the live subscription missed and the repair pass re-indexed
+CREATE TABLE IF NOT EXISTS indexer_repairs (
+  id BIGSERIAL PRIMARY KEY,
+  token TEXT NOT NULL,
+  from_index BIGINT NOT NULL,
+  to_index BIGINT NOT NULL,
+  signatures_scanned INTEGER NOT NULL DEFAULT 0,
+  transactions_fetched INTEGER NOT NULL DEFAULT 0,
+  rows_inserted INTEGER NOT NULL DEFAULT 0,
+  still_missing INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_repairs_token_created ON indexer_repairs (token, created_at DESC);
+
+ALTER TABLE indexer_repairs ENABLE ROW LEVEL SECURITY;
+
+-- Spent nullifiers: one row per nullifier0/nullifier1 PDA created by a transact instruction
+CREATE TABLE IF NOT EXISTS nullifiers (
+  id BIGSERIAL PRIMARY KEY,
+  nullifier_pda TEXT NOT NULL UNIQUE,
+  nullifier TEXT,
+  token TEXT,
+  transaction_signature TEXT NOT NULL,
+  slot BIGINT,
+  status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'finalized')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_nullifiers_nullifier ON nullifiers (nullifier);
+CREATE INDEX IF NOT EXISTS idx_nullifiers_transaction_signature ON nullifiers (transaction_signature);
+
+DROP TRIGGER IF EXISTS nullifiers_updated_at ON nullifiers;
+CREATE TRIGGER nullifiers_updated_at BEFORE UPDATE ON nullifiers FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE nullifiers ENABLE ROW LEVEL SECURITY;
+
+-- Single-writer lease for the indexer: only the holder of an unexpired row runs the indexer.
+-- Expiry uses the database clock so replicas with skewed clocks agree on who holds it.
+CREATE TABLE IF NOT EXISTS indexer_leases (
+  name TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS indexer_leases_updated_at ON indexer_leases;
+CREATE TRIGGER indexer_leases_updated_at BEFORE UPDATE ON indexer_leases FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE indexer_leases ENABLE ROW LEVEL SECURITY;
+
+-- Take or renew the lease; true if p_holder holds it afterwards (free, expired, or already its own)
+CREATE OR REPLACE FUNCTION acquire_indexer_lease(p_name TEXT, p_holder TEXT, p_ttl_ms INTEGER)
+RETURNS BOOLEAN AS $$
+DECLARE
+  acquired BOOLEAN;
+BEGIN
+  INSERT INTO indexer_leases (name, holder, expires_at)
+  VALUES (p_name, p_holder, now() + p_ttl_ms * INTERVAL '1 millisecond')
+  ON CONFLICT (name) DO UPDATE
+    SET holder = EXCLUDED.holder,
+        expires_at = EXCLUDED.expires_at,
+        acquired_at = CASE WHEN indexer_leases.holder = EXCLUDED.holder THEN indexer_leases.acquired_at ELSE now() END
+    WHERE indexer_leases.holder = EXCLUDED.holder OR indexer_leases.expires_at < now()
+  RETURNING true INTO acquired;
+  RETURN COALESCE(acquired, false);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give the lease up on clean shutdown so a standby takes over without waiting for expiry
+CREATE OR REPLACE FUNCTION release_indexer_lease(p_name TEXT, p_holder TEXT)
+RETURNS VOID AS $$ BEGIN DELETE FROM indexer_leases WHERE name = p_name AND holder = p_holder; END; $$ LANGUAGE plpgsql;
+
+-- Heartbeat of the indexer holding the lease, for GET /indexer/status (API replicas may not run the indexer)
+CREATE TABLE IF NOT EXISTS indexer_status (
+  program_id TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  ingest_modes TEXT NOT NULL,
+  subscription_state TEXT NOT NULL CHECK (subscription_state IN ('connected', 'reconnecting', 'disabled')),
+  last_notification_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS indexer_status_updated_at ON indexer_status;
+CREATE TRIGGER indexer_status_updated_at BEFORE UPDATE ON indexer_status FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE indexer_status ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,38 @@
+-- Relayed transactions (POST /deposit*, /withdraw*), tracked until they land or expire; GET /tx reads.
+-- raw_transaction is the last signed transaction sent (base64). relayer_signed rows are re-signed
+-- with a fresh blockhash and rebroadcast when theirs expires; the others can only be resent as-is.
+
+CREATE TABLE IF NOT EXISTS submissions (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('deposit', 'deposit_spl', 'withdraw', 'withdraw_spl')),
+  token TEXT,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'confirmed', 'finalized', 'failed', 'expired')),
+  signature TEXT NOT NULL,
+  raw_transaction TEXT NOT NULL,
+  blockhash TEXT NOT NULL,
+  relayer_signed BOOLEAN NOT NULL DEFAULT false,
+  root TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  slot BIGINT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- The tracker scans unsettled submissions oldest first
+CREATE INDEX IF NOT EXISTS idx_submissions_pending ON submissions (created_at) WHERE status IN ('sent', 'confirmed');
+
+DROP TRIGGER IF EXISTS submissions_updated_at ON submissions;
+CREATE TRIGGER submissions_updated_at BEFORE UPDATE ON submissions FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE submissions ENABLE ROW LEVEL SECURITY;
+
+-- Every signature a submission was sent under, so GET /tx/:signature finds it by any of them
+CREATE TABLE IF NOT EXISTS submission_signatures (
+  signature TEXT PRIMARY KEY,
+  submission_id TEXT NOT NULL REFERENCES submissions (id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_submission_signatures_submission ON submission_signatures (submission_id);
+
+ALTER TABLE submission_signatures ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,71 @@
+-- Shade indexer schema (SQLite), version 1. Mirrors migrations/postgres/001_initial_schema.sql;
+-- timestamps are ISO-8601 text and triggers are left out (updates set updated_at themselves).
+CREATE TABLE IF NOT EXISTS commitments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  token TEXT NOT NULL DEFAULT 'sol',
+  commitment_index INTEGER NOT NULL,
+  commitment TEXT NOT NULL UNIQUE,
+  encrypted_output TEXT NOT NULL,
+  mint_address TEXT,
+  transaction_signature TEXT,
+  slot INTEGER,
+  status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'finalized', 'orphaned')),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_commitments_token_index ON commitments (token, commitment_index);
+CREATE INDEX IF NOT EXISTS idx_commitments_encrypted ON commitments (encrypted_output);
+CREATE INDEX IF NOT EXISTS idx_commitments_transaction_signature ON commitments (transaction_signature);
+CREATE INDEX IF NOT EXISTS idx_commitments_confirmed_slot ON commitments (slot) WHERE status = 'confirmed';
+
+CREATE TABLE IF NOT EXISTS indexer_cursors (
+  program_id TEXT PRIMARY KEY,
+  last_signature TEXT,
+  last_slot INTEGER,
+  backfill_tip_signature TEXT,
+  backfill_tip_slot INTEGER,
+  backfill_before_signature TEXT,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS indexer_repairs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  token TEXT NOT NULL,
+  from_index INTEGER NOT NULL,
+  to_index INTEGER NOT NULL,
+  signatures_scanned INTEGER NOT NULL DEFAULT 0,
+  transactions_fetched INTEGER NOT NULL DEFAULT 0,
+  rows_inserted INTEGER NOT NULL DEFAULT 0,
+  still_missing INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS nullifiers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nullifier_pda TEXT NOT NULL UNIQUE,
+  nullifier TEXT,
+  token TEXT,
+  transaction_signature TEXT NOT NULL,
+  slot INTEGER,
+  status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'finalized')),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_nullifiers_nullifier ON nullifiers (nullifier);
+CREATE INDEX IF NOT EXISTS idx_nullifiers_transaction_signature ON nullifiers (transaction_signature);
+
+CREATE TABLE IF NOT EXISTS indexer_leases (
+  name TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,
+  acquired_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS indexer_status (
+  program_id TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  ingest_modes TEXT NOT NULL,
+  subscription_state TEXT NOT NULL CHECK (subscription_state IN ('connected', 'reconnecting', 'disabled')),
+  last_notification_at TEXT,
+  heartbeat_at TEXT NOT NULL
+);
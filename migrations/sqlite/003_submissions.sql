@@ -0,0 +1,25 @@
+-- Relayed transactions, version 3. Mirrors migrations/postgres/003_submissions.sql.
+CREATE TABLE IF NOT EXISTS submissions (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('deposit', 'deposit_spl', 'withdraw', 'withdraw_spl')),
+  token TEXT,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'confirmed', 'finalized', 'failed', 'expired')),
+  signature TEXT NOT NULL,
+  raw_transaction TEXT NOT NULL,
+  blockhash TEXT NOT NULL,
+  relayer_signed INTEGER NOT NULL DEFAULT 0,
+  root TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  slot INTEGER,
+  error TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_submissions_pending ON submissions (created_at) WHERE status IN ('sent', 'confirmed');
+
+CREATE TABLE IF NOT EXISTS submission_signatures (
+  signature TEXT PRIMARY KEY,
+  submission_id TEXT NOT NULL REFERENCES submissions (id) ON DELETE CASCADE,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_submission_signatures_submission ON submission_signatures (submission_id);
@@ -0,0 +1,13 @@
+-- Stable failure code and built-in error variant for failed and expired submissions, version 4. Mirrors
+-- migrations/postgres/004_submission_error_codes.sql.
+ALTER TABLE submissions ADD COLUMN error_code TEXT;
+ALTER TABLE submissions ADD COLUMN error_reason TEXT;
+
+UPDATE submissions SET error = 'Transaction failed', error_code = 'TRANSACTION_FAILED' WHERE status = 'failed';
+UPDATE submissions SET error_code = CASE
+    WHEN error LIKE 'Proof root%' THEN 'UNKNOWN_ROOT'
+    WHEN error LIKE 'Not landed%' THEN 'NOT_LANDED'
+    WHEN error LIKE 'Relayer keypair%' THEN 'RELAYER_UNAVAILABLE'
+    ELSE 'BLOCKHASH_EXPIRED'
+  END
+  WHERE status = 'expired';
@@ -0,0 +1,33 @@
+/**
+ * Apply pending schema migrations to the configured database (DB_BACKEND; the supabase backend
+ * needs DATABASE_URL). Usage: npm run migrate -- [--status]
+ * --status only prints the applied and expected versions, and exits 1 if the schema is behind.
+ */
+import { config, validateConfig } from '../config/env.js';
+import { getStore } from '../db/index.js';
+import { latestVersion } from '../db/migrate.js';
+
+async function main(): Promise<void> {
+  validateConfig();
+  const store = getStore();
+  const latest = latestVersion(store.backend === 'sqlite' ? 'sqlite' : 'postgres');
+
+  if (process.argv.includes('--status')) {
+    const current = await store.schemaVersion();
+    console.log(JSON.stringify({ backend: config.dbBackend, current, latest, pending: Math.max(0, latest - current) }));
+    process.exit(current < latest ? 1 : 0);
+  }
+
+  const applied = await store.migrate();
+  console.log(
+    applied.length > 0
+      ? `Applied migrations ${applied.join(', ')}; schema is at version ${await store.schemaVersion()}`
+      : `Schema is up to date (version ${await store.schemaVersion()})`
+  );
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('Migrate failed:', e);
+  process.exit(2);
+});
@@ -0,0 +1,92 @@
+/**
+ * Replay recorded webhook payloads through webhook ingestion (local harness).
+ * Usage: npm run replay:webhook -- [--parse-only] [file.json | dir ...]   (default: fixtures/webhook)
+ * Each payload is indexed as POST /ingest/webhook would index it, then the stored rows are printed.
+ * The npm script points it at a scratch in-memory SQLite store; it refuses to write into any store
+ * that already holds commitments. --parse-only prints what each payload would index without a store.
+ * Exits 1 if any payload is rejected.
+ */
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { CommitmentStatus, ensureSchema, getStore } from '../db/index.js';
+import { SUPPORTED_TOKENS } from '../lib/mints.js';
+import { processLogLines } from '../indexer/ingest.js';
+import { ingestWebhookTransactions, parseWebhookPayload } from '../indexer/webhook.js';
+import { loadIdls } from '../solana/idl.js';
+
+const DEFAULT_FIXTURES = 'fixtures/webhook';
+const ALL_STATUSES: CommitmentStatus[] = ['confirmed', 'finalized', 'orphaned'];
+/** Rows printed per token after the replay */
+const PRINT_LIMIT = 1000;
+
+function payloadFiles(paths: string[]): string[] {
+  return paths.flatMap((p) =>
+    statSync(p).isDirectory()
+      ? readdirSync(p)
+          .filter((f) => f.endsWith('.json'))
+          .sort()
+          .map((f) => join(p, f))
+      : [p]
+  );
+}
+
+function describe(body: Buffer): string {
+  const transactions = parseWebhookPayload(JSON.parse(body.toString('utf-8')));
+  return transactions
+    .map((tx) => {
+      if (tx.failed) return `${tx.signature}: failed, skipped`;
+      if (!tx.logMessages) return `${tx.signature}: enhanced, fetched from RPC`;
+      const rows = processLogLines(tx.logMessages, tx.signature, tx.slot);
+      return `${tx.signature}: ${rows.length} commitment(s) [${rows.map((r) => `${r.token}#${r.commitment_index}`).join(', ')}]`;
+    })
+    .join('\n  ');
+}
+
+async function storedCommitments(): Promise<number> {
+  const counts = await Promise.all(SUPPORTED_TOKENS.map((token) => getStore().countCommitments(token, ALL_STATUSES)));
+  return counts.reduce((sum, count) => sum + count, 0);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const parseOnly = args.includes('--parse-only');
+  const paths = args.filter((a) => !a.startsWith('--'));
+  const files = payloadFiles(paths.length ? paths : [DEFAULT_FIXTURES]);
+
+  if (parseOnly) {
+    for (const file of files) console.log(`${file}:\n  ${describe(readFileSync(file))}`);
+    process.exit(0);
+  }
+
+  await ensureSchema();
+  const existing = await storedCommitments();
+  if (existing > 0) {
+    console.error(`The store already holds ${existing} commitment(s); replay only into a scratch store (npm run replay:webhook)`);
+    process.exit(2);
+  }
+  await loadIdls();
+
+  let allOk = true;
+  for (const file of files) {
+    try {
+      const result = await ingestWebhookTransactions(parseWebhookPayload(JSON.parse(readFileSync(file, 'utf-8'))));
+      console.log(`${file}: ${JSON.stringify(result)}`);
+    } catch (e) {
+      console.log(`${file}: rejected (${e instanceof Error ? e.message : e})`);
+      allOk = false;
+    }
+  }
+  for (const token of SUPPORTED_TOKENS) {
+    const rows = await getStore().listCommitments({ token, statuses: ALL_STATUSES, limit: PRINT_LIMIT });
+    for (const row of rows) {
+      console.log(`  ${token}#${row.commitment_index} ${row.status} ${row.commitment} (${row.transaction_signature})`);
+    }
+  }
+  await getStore().close();
+  process.exit(allOk ? 0 : 1);
+}
+
+main().catch((e) => {
+  console.error('Replay failed:', e);
+  process.exit(2);
+});
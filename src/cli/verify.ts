@@ -0,0 +1,33 @@
+/**
+ * Verify indexed commitments against the on-chain tree.
+ * Usage: npm run verify -- [--finalized] [token ...]   (default: sol). Exits 1 if any token is not ok.
+ */
+import { verifyTree } from '../merkle/verify.js';
+import { isValidToken } from '../lib/validators.js';
+import { loadIdls } from '../solana/idl.js';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const level = args.includes('--finalized') ? 'finalized' : 'confirmed';
+  const tokens = args.filter((a) => !a.startsWith('--')).map((t) => t.toLowerCase());
+  if (tokens.length === 0) tokens.push('sol');
+  const invalid = tokens.filter((t) => !isValidToken(t));
+  if (invalid.length > 0) {
+    console.error(`Unknown token(s): ${invalid.join(', ')}`);
+    process.exit(2);
+  }
+
+  await loadIdls();
+  let allOk = true;
+  for (const token of tokens) {
+    const report = await verifyTree(token, level);
+    console.log(JSON.stringify(report, null, 2));
+    if (report.status !== 'ok') allOk = false;
+  }
+  process.exit(allOk ? 0 : 1);
+}
+
+main().catch((e) => {
+  console.error('Verify failed:', e);
+  process.exit(2);
+});
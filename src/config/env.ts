@@ -10,7 +10,31 @@ function getCorsOrigins(): string[] | '*' {
   return raw.split(',').map((o) => o.trim()).filter(Boolean);
 }
 
+export type DbBackend = 'supabase' | 'postgres' | 'sqlite';
+const DB_BACKENDS: readonly DbBackend[] = ['supabase', 'postgres', 'sqlite'];
+
+export type IngestMode = 'logs' | 'webhook' | 'polling';
+const INGEST_MODES: readonly IngestMode[] = ['logs', 'webhook', 'polling'];
+
+/** Parse QUOTE_TOKEN_PRICES: comma-separated token=price pairs, price in whole tokens per 1 SOL */
+function getQuoteTokenPrices(): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const pair of (process.env.QUOTE_TOKEN_PRICES ?? '').split(',')) {
+    const [token, price] = pair.split('=').map((p) => p.trim());
+    if (token && price) prices[token.toLowerCase()] = Number(price);
+  }
+  return prices;
+}
+
+/** Parse INGEST_MODES: comma-separated subset of logs, webhook, polling (default logs) */
+function getIngestModes(): IngestMode[] {
+  const raw = process.env.INGEST_MODES ?? 'logs';
+  return raw.split(',').map((m) => m.trim().toLowerCase()).filter(Boolean) as IngestMode[];
+}
+
 export const config = {
+  // NODE_ENV=production makes settings that only work on a single process (QUOTE_SECRET) required
+  production: process.env.NODE_ENV === 'production',
   rpcUrl: process.env.RPC_URL ?? 'https://api.devnet.solana.com',
   isDevnet,
   programId: new PublicKey(process.env.PROGRAM_ID ?? '49JYv2nPJK4XQ9mK1TVGNGcF26KtuwQobrKtghkxvqHq'),
@@ -18,20 +42,102 @@ export const config = {
   altAddress: new PublicKey(process.env.ALT_ADDRESS ?? '7R5yXHwPZb8bL4DSLqXB3WWgGcAh7TGePJUzNGxzncyB'),
   feeRecipient: new PublicKey(process.env.FEE_RECIPIENT ?? '37aE2MTeWyDLogD4KbBHmLp9A2XWddqfTbAAfWfQYm7U'),
   port: parseInt(process.env.PORT ?? '3001', 10),
+  // Where commitments, nullifiers and indexer state live: supabase (default), postgres or sqlite
+  dbBackend: (process.env.DB_BACKEND ?? 'supabase').trim().toLowerCase() as DbBackend,
   supabaseUrl: process.env.SUPABASE_URL ?? '',
   supabaseServiceKey: process.env.SUPABASE_SERVICE_ROLE_KEY ?? '',
+  // Postgres connection string for DB_BACKEND=postgres; with supabase, used only to run migrations
+  databaseUrl: process.env.DATABASE_URL ?? '',
+  // Apply pending schema migrations on startup instead of refusing to start (SQLite always migrates)
+  migrateOnStart: (process.env.MIGRATE_ON_START ?? 'false') === 'true',
+  // SQLite file for DB_BACKEND=sqlite; :memory: keeps the index in process (lost on restart)
+  sqlitePath: process.env.SQLITE_PATH ?? ':memory:',
   corsOrigins: getCorsOrigins(),
   configCacheTtlMs: parseInt(process.env.CONFIG_CACHE_TTL_MS ?? '30000', 10), // 30s default
   // 0 = always fetch fresh from chain (avoids UnknownRoot when tree updates between requests)
   merkleCacheTtlMs: parseInt(process.env.MERKLE_CACHE_TTL_MS ?? '0', 10),
+  // Max RPC requests/sec the indexer backfill issues (public RPCs throttle around 10/s)
+  indexerRpcRps: parseFloat(process.env.INDEXER_RPC_RPS ?? '5'),
+  // How often to compare indexed commitments with on-chain nextIndex and repair gaps; 0 = off
+  gapRepairIntervalMs: parseInt(process.env.GAP_REPAIR_INTERVAL_MS ?? '60000', 10),
+  // How often to promote confirmed commitments to finalized / mark dropped-fork ones orphaned; 0 = off
+  finalityIntervalMs: parseInt(process.env.FINALITY_INTERVAL_MS ?? '30000', 10),
+  // Run the indexer in this process (set false on API replicas and run `npm run index` separately)
+  indexerEnabled: (process.env.INDEXER_ENABLED ?? 'true') === 'true',
+  // Single-writer lease TTL; a standby indexer takes over this long after the holder stops renewing
+  indexerLeaseTtlMs: parseInt(process.env.INDEXER_LEASE_TTL_MS ?? '30000', 10),
+  // How new transactions reach the indexer: onLogs subscription, provider webhooks, signature polling, or a mix
+  ingestModes: getIngestModes(),
+  // Shared secret for POST /ingest/webhook (Authorization header or HMAC-SHA256 X-Shade-Signature)
+  ingestWebhookSecret: process.env.INGEST_WEBHOOK_SECRET ?? '',
+  ingestPollIntervalMs: parseInt(process.env.INGEST_POLL_INTERVAL_MS ?? '5000', 10),
+  // /health reports degraded when a token's indexed tree is this far behind the chain; 0 disables either check
+  indexerMaxLagLeaves: parseInt(process.env.INDEXER_MAX_LAG_LEAVES ?? '100', 10),
+  indexerMaxLagSeconds: parseInt(process.env.INDEXER_MAX_LAG_SECONDS ?? '120', 10),
+  // /stream/commitments: how often each token's feed checks the DB for new leaves (local indexer writes wake it at once)
+  streamPollIntervalMs: parseInt(process.env.STREAM_POLL_INTERVAL_MS ?? '1000', 10),
+  // Max concurrent SSE + WebSocket stream clients per process
+  streamMaxClients: parseInt(process.env.STREAM_MAX_CLIENTS ?? '1000', 10),
+  // /utxos/range: pages below the finalized tip kept in memory (up to 1000 rows each); 0 disables
+  rangeCacheEntries: parseInt(process.env.RANGE_CACHE_ENTRIES ?? '100', 10),
+  // /snapshots: how often to check for a new checkpoint (0 disables), where files go, and the checkpoint granularity in leaves
+  snapshotIntervalMs: parseInt(process.env.SNAPSHOT_INTERVAL_MS ?? '600000', 10),
+  snapshotDir: process.env.SNAPSHOT_DIR ?? './data/snapshots',
+  snapshotStride: parseInt(process.env.SNAPSHOT_STRIDE ?? '1000', 10),
+  // POST /relayer/quote: HMAC key for quote ids (share it across replicas; random per process when unset),
+  // quote lifetime, and margin over the relayer's cost in basis points
+  quoteSecret: process.env.QUOTE_SECRET ?? '',
+  quoteTtlMs: parseInt(process.env.QUOTE_TTL_MS ?? '60000', 10),
+  quoteMarginBps: parseInt(process.env.QUOTE_MARGIN_BPS ?? '2000', 10),
+  // Whole tokens per 1 SOL (e.g. usdc=150); tokens not listed are priced from PRICE_API_URL (Jupiter price API v3)
+  quoteTokenPrices: getQuoteTokenPrices(),
+  priceApiUrl: process.env.PRICE_API_URL ?? 'https://lite-api.jup.ag/price/v3',
+  // Priority fee on relayed withdraws (micro-lamports per compute unit): this percentile of recent fees paid for
+  // the tree and nullifier accounts, no lower than RELAYER_PRIORITY_FEE_MICRO_LAMPORTS and no higher than the cap
+  priorityFeePercentile: parseInt(process.env.PRIORITY_FEE_PERCENTILE ?? '75', 10),
+  relayerPriorityFeeMicroLamports: parseInt(process.env.RELAYER_PRIORITY_FEE_MICRO_LAMPORTS ?? '0', 10),
+  priorityFeeMaxMicroLamports: parseInt(process.env.PRIORITY_FEE_MAX_MICRO_LAMPORTS ?? '1000000', 10),
+  // Compute unit limit on relayed withdraws: simulated consumption plus this margin in basis points
+  computeUnitHeadroomBps: parseInt(process.env.COMPUTE_UNIT_HEADROOM_BPS ?? '2000', 10),
+  // Relayed transactions: how often the tracker polls their status and rebroadcasts (0 disables), and how many
+  // times a relayer-signed withdraw is sent with a fresh blockhash before it is marked expired
+  submissionPollIntervalMs: parseInt(process.env.SUBMISSION_POLL_INTERVAL_MS ?? '2000', 10),
+  submissionMaxAttempts: parseInt(process.env.SUBMISSION_MAX_ATTEMPTS ?? '10', 10),
+  // Shade IDL JSON files (comma-separated), e.g. current and previous program version during an upgrade
+  idlPaths: (process.env.IDL_PATHS ?? '').split(',').map((p) => p.trim()).filter(Boolean),
+  // Also load the IDL published on chain (anchor idl init/upgrade)
+  idlFromChain: (process.env.IDL_FROM_CHAIN ?? 'true') === 'true',
 } as const;
 
-export function validateConfig(): void {
+/** Throws on missing or invalid settings. `relayer`: also check what the relay routes (API process) need. */
+export function validateConfig(options: { relayer?: boolean } = {}): void {
+  if (!DB_BACKENDS.includes(config.dbBackend)) {
+    throw new Error(`DB_BACKEND must be one of ${DB_BACKENDS.join(', ')}`);
+  }
   const missing: string[] = [];
-  if (!config.supabaseUrl || !config.supabaseServiceKey) {
+  if (config.dbBackend === 'supabase' && (!config.supabaseUrl || !config.supabaseServiceKey)) {
     missing.push('SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY');
   }
+  if (config.dbBackend === 'postgres' && !config.databaseUrl) {
+    missing.push('DATABASE_URL');
+  }
+  if (config.ingestModes.includes('webhook') && !config.ingestWebhookSecret) {
+    missing.push('INGEST_WEBHOOK_SECRET');
+  }
+  // Quote ids signed with a per-process secret fail on every other replica
+  if (options.relayer && config.production && !config.quoteSecret) {
+    missing.push('QUOTE_SECRET');
+  }
   if (missing.length > 0) {
     throw new Error(`Missing required env vars: ${[...new Set(missing)].join(', ')}`);
   }
+  const unknownModes = config.ingestModes.filter((m) => !INGEST_MODES.includes(m));
+  if (unknownModes.length > 0 || config.ingestModes.length === 0) {
+    throw new Error(`INGEST_MODES must be a comma-separated subset of ${INGEST_MODES.join(', ')}`);
+  }
+  // A NaN price breaks every fee computation and one <= 0 prices the relayer's cost at nothing
+  const badPrices = Object.entries(config.quoteTokenPrices).filter(([, price]) => !Number.isFinite(price) || price <= 0);
+  if (badPrices.length > 0) {
+    throw new Error(`QUOTE_TOKEN_PRICES must be positive numbers (invalid: ${badPrices.map(([token]) => token).join(', ')})`);
+  }
 }
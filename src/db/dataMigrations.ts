@@ -0,0 +1,39 @@
+/**
+ * Data migrations: TypeScript steps registered under a migration version (see ./migrate.ts). They
+ * run inside that version's transaction after its SQL file, if any, and use `?` placeholders so one
+ * step serves both dialects. Forward only; a failed step rolls back and reruns from the start.
+ */
+import type { MigrationTarget } from './migrate.js';
+
+export interface DataMigration {
+  version: number;
+  name: string;
+  run(db: MigrationTarget): Promise<void>;
+}
+
+/**
+ * Commitments and nullifiers indexed before slot tracking have no slot. The commitments and
+ * nullifiers of one transaction share its slot, so copy it to whichever side lacks it; the finality
+ * pass fills the rest from the chain.
+ */
+async function backfillSlots(db: MigrationTarget): Promise<void> {
+  for (const [table, other] of [
+    ['commitments', 'nullifiers'],
+    ['nullifiers', 'commitments'],
+  ]) {
+    await db.query(
+      `UPDATE ${table} SET slot = (
+         SELECT o.slot FROM ${other} o
+         WHERE o.transaction_signature = ${table}.transaction_signature AND o.slot IS NOT NULL LIMIT 1
+       )
+       WHERE slot IS NULL AND transaction_signature IS NOT NULL`
+    );
+  }
+}
+
+/**
+ * Steps must stay DB-only: they run under the migration lock, so RPC calls would stall every
+ * starting replica and one RPC failure would roll back the version. Data that needs the chain is
+ * filled by the indexer instead.
+ */
+export const DATA_MIGRATIONS: DataMigration[] = [{ version: 2, name: 'backfill_slots', run: backfillSlots }];
@@ -1,34 +1,82 @@
 /**
- * Database (Supabase) used by shade-api.
+ * Database used by shade-api, behind the CommitmentStore interface (./store.ts). DB_BACKEND picks
+ * Supabase (default), plain Postgres (DATABASE_URL) or SQLite (SQLITE_PATH, `:memory:` by default).
+ * Schema: migrations/<postgres|sqlite>, applied by ./migrate.ts; ensureSchema() runs before serving.
  *
- * Only the `commitments` table is used. You can drop unused tables:
+ * Tables: `commitments` (UTXO index), `nullifiers` (spent notes), `indexer_cursors` (backfill checkpoint),
+ * `indexer_repairs` (gap repair audit), `indexer_leases` (single-writer leases), `indexer_status` (heartbeat),
+ * `submissions` and `submission_signatures` (relayed transactions).
+ * You can drop unused tables:
  *   DROP TABLE IF EXISTS encrypted_to_index;
  *   DROP TABLE IF EXISTS merkle_tree;
  *
  * Endpoints and DB usage:
  * - GET  /config           — no DB; reads from chain.
  * - GET  /merkle/root      — no DB; reads from chain. Optional ?token=.
- * - GET  /merkle/proof/:c  — DB: commitments only (commitment_index + siblings by token).
- * - POST /deposit, /deposit/spl, /withdraw, /withdraw/spl — no DB; relay signed tx.
- * - GET  /utxos/range      — DB: commitments by token + commitment_index range.
+ * - GET  /merkle/roots     — no DB; root history from chain.
+ * - GET  /merkle/proof/:c  — DB: commitment_index lookup; path from the in-memory tree (src/merkle), seeded from commitments.
+ * - GET  /merkle/path      — in-memory tree only (synced from commitments by token).
+ * - POST /deposit, /deposit/spl, /withdraw, /withdraw/spl — DB: records the relayed tx in submissions.
+ * - GET  /tx/:id           — DB: submission by id or signature; the tracker keeps its status current.
+ * - GET  /utxos/range      — DB: commitments by token + commitment_index range (page, cursor page or NDJSON stream).
  * - GET  /utxos/check/:eo  — DB: commitments by encrypted_output + token.
  * - POST /utxos/indices    — DB: commitments by token + encrypted_outputs.
+ * - POST /nullifiers/check — DB: nullifiers by value or PDA; chain fallback for unindexed ones.
+ * - POST /ingest/webhook   — DB: upserts commitments and nullifiers from provider webhooks.
+ * - GET  /indexer/status   — DB: newest commitment per token, indexer_status heartbeat; tree + chain nextIndex.
+ * - GET  /stream/commitments — in-memory tree per token; DB: replay range and new leaves, once per token.
+ * - GET  /snapshots/*      — files on disk; generation reads finalized commitments up to the checkpoint.
  */
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from '../config/env.js';
+import type { CommitmentLevel, CommitmentStatus, CommitmentStore } from './store.js';
+import { latestVersion } from './migrate.js';
+import { createPostgresStore } from './postgres.js';
+import { createSqliteStore } from './sqlite.js';
+import { createSupabaseStore } from './supabase.js';
 
-let supabase: SupabaseClient | null = null;
+export * from './store.js';
 
-export function getDb(): SupabaseClient {
-  if (!supabase) {
-    if (!config.supabaseUrl || !config.supabaseServiceKey) {
-      throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in environment');
+let store: CommitmentStore | null = null;
+
+export function getStore(): CommitmentStore {
+  if (!store) {
+    switch (config.dbBackend) {
+      case 'postgres':
+        if (!config.databaseUrl) throw new Error('DATABASE_URL must be set in environment');
+        store = createPostgresStore(config.databaseUrl);
+        break;
+      case 'sqlite':
+        store = createSqliteStore(config.sqlitePath);
+        break;
+      default:
+        if (!config.supabaseUrl || !config.supabaseServiceKey) {
+          throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in environment');
+        }
+        store = createSupabaseStore(config.supabaseUrl, config.supabaseServiceKey, config.databaseUrl);
     }
-    supabase = createClient(config.supabaseUrl, config.supabaseServiceKey, {
-      auth: { persistSession: false },
-    });
   }
-  return supabase;
+  return store;
+}
+
+/**
+ * Refuse to run against a schema older than this build: apply pending migrations when
+ * MIGRATE_ON_START is set (always for SQLite, which is local to the process), otherwise throw.
+ * A schema newer than the build is accepted so a rollback does not need a down-migration.
+ */
+export async function ensureSchema(): Promise<void> {
+  const db = getStore();
+  const latest = latestVersion(db.backend === 'sqlite' ? 'sqlite' : 'postgres');
+  let current = await db.schemaVersion();
+  if (current < latest && (config.migrateOnStart || db.backend === 'sqlite')) {
+    await db.migrate();
+    current = await db.schemaVersion();
+  }
+  if (current < latest) {
+    throw new Error(
+      `Database schema is at version ${current} but this build needs ${latest}; ` +
+        'run `npm run migrate` or set MIGRATE_ON_START=true'
+    );
+  }
 }
 
 export interface CommitmentRow {
@@ -38,4 +86,12 @@ export interface CommitmentRow {
   commitment: string;
   encrypted_output: string;
   mint_address: string | null;
+  transaction_signature: string | null;
+  slot: number | null;
+  status: CommitmentStatus;
+}
+
+/** Row statuses visible at a read level; orphaned rows are never visible. */
+export function visibleStatuses(level: CommitmentLevel): CommitmentStatus[] {
+  return level === 'finalized' ? ['finalized'] : ['confirmed', 'finalized'];
 }
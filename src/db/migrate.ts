@@ -0,0 +1,195 @@
+/**
+ * Versioned, forward-only schema migrations.
+ *
+ * A migration is a version number with a SQL file (migrations/<dialect>/NNN_name.sql), a data step
+ * (./dataMigrations.ts), or both; the SQL runs first. Each version is applied in one transaction
+ * together with its row in schema_migrations, so a failed migration leaves nothing behind and is
+ * retried whole on the next run. Versions must be numbered 1..N without gaps, per dialect.
+ *
+ * Postgres runs hold an advisory lock, so replicas started together apply each migration once.
+ *
+ * Version 1 is written to be idempotent, so a database created by hand from the old
+ * supabase/migrations/shade.sql is adopted by applying it: existing tables are kept and only the
+ * columns, tables and indexes it lacks are added.
+ */
+import { readdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import type Database from 'better-sqlite3';
+import type pg from 'pg';
+import { DATA_MIGRATIONS } from './dataMigrations.js';
+
+export type MigrationDialect = 'postgres' | 'sqlite';
+
+/** The connection a migration runs on. `?` placeholders on both dialects. */
+export interface MigrationTarget {
+  readonly dialect: MigrationDialect;
+  query(sql: string, params?: unknown[]): Promise<Record<string, unknown>[]>;
+  /** Run a multi-statement script (no parameters) */
+  exec(sql: string): Promise<void>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string | null;
+  data: ((db: MigrationTarget) => Promise<void>) | null;
+}
+
+export class MigrationError extends Error {
+  constructor(
+    readonly version: number,
+    readonly migrationName: string,
+    cause: unknown
+  ) {
+    super(`Migration ${version} (${migrationName}) failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'MigrationError';
+  }
+}
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../../migrations/', import.meta.url));
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+/** Arbitrary key for pg_advisory_lock, shared by every shade-api process */
+const ADVISORY_LOCK_KEY = 7_342_001;
+
+const BOOTSTRAP: Record<MigrationDialect, string> = {
+  postgres: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;`,
+  sqlite: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );`,
+};
+
+const loaded = new Map<MigrationDialect, Migration[]>();
+
+/** All migrations for a dialect, in version order. Throws if versions are duplicated or have gaps. */
+export function loadMigrations(dialect: MigrationDialect): Migration[] {
+  const cached = loaded.get(dialect);
+  if (cached) return cached;
+
+  const byVersion = new Map<number, Migration>();
+  const dir = `${MIGRATIONS_DIR}${dialect}`;
+  for (const file of readdirSync(dir).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+    const version = parseInt(match[1], 10);
+    if (byVersion.has(version)) throw new Error(`Duplicate migration version ${version} in ${dir}`);
+    byVersion.set(version, { version, name: match[2], sql: readFileSync(`${dir}/${file}`, 'utf-8'), data: null });
+  }
+  for (const step of DATA_MIGRATIONS) {
+    const existing = byVersion.get(step.version);
+    if (existing && existing.name !== step.name) {
+      throw new Error(`Data migration ${step.version} (${step.name}) does not match ${dialect} file ${existing.name}`);
+    }
+    byVersion.set(step.version, { ...(existing ?? { version: step.version, name: step.name, sql: null }), data: step.run });
+  }
+
+  const migrations = [...byVersion.values()].sort((a, b) => a.version - b.version);
+  migrations.forEach((m, i) => {
+    if (m.version !== i + 1) throw new Error(`Migration versions for ${dialect} must be 1..N without gaps (missing ${i + 1})`);
+  });
+  loaded.set(dialect, migrations);
+  return migrations;
+}
+
+/** The schema version this build expects */
+export function latestVersion(dialect: MigrationDialect): number {
+  const migrations = loadMigrations(dialect);
+  return migrations.length === 0 ? 0 : migrations[migrations.length - 1].version;
+}
+
+async function hasTable(target: MigrationTarget, table: string): Promise<boolean> {
+  const exists =
+    target.dialect === 'postgres'
+      ? await target.query('SELECT to_regclass(?) IS NOT NULL AS present', [table])
+      : await target.query(`SELECT 1 AS present FROM sqlite_master WHERE type = 'table' AND name = ?`, [table]);
+  return Boolean(exists[0]?.present);
+}
+
+/** Versions recorded in schema_migrations; empty when the table does not exist yet */
+export async function appliedVersions(target: MigrationTarget): Promise<number[]> {
+  if (!(await hasTable(target, 'schema_migrations'))) return [];
+  const rows = await target.query('SELECT version FROM schema_migrations ORDER BY version');
+  return rows.map((r) => Number(r.version));
+}
+
+/** Apply every pending migration in order. Returns the versions applied. */
+export async function runMigrations(target: MigrationTarget): Promise<number[]> {
+  const { dialect } = target;
+  const migrations = loadMigrations(dialect);
+  // Lock before the bootstrap too: concurrent CREATE TABLE IF NOT EXISTS can race on the catalog
+  if (dialect === 'postgres') await target.query('SELECT pg_advisory_lock(?)', [ADVISORY_LOCK_KEY]);
+  try {
+    await target.exec(BOOTSTRAP[dialect]);
+    // Read after taking the lock: another process may have just applied some
+    const applied = new Set(await appliedVersions(target));
+    if (dialect === 'postgres' && applied.size === 0 && (await hasTable(target, 'commitments'))) {
+      console.log('Adopting a schema created from shade.sql: version 1 only adds what it is missing');
+    }
+    const done: number[] = [];
+    for (const migration of migrations) {
+      if (applied.has(migration.version)) continue;
+      console.log(`Migrating ${dialect} schema: ${migration.version} ${migration.name}`);
+      await target.exec(dialect === 'sqlite' ? 'BEGIN IMMEDIATE' : 'BEGIN');
+      try {
+        if (migration.sql) await target.exec(migration.sql);
+        if (migration.data) await migration.data(target);
+        await target.query('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [
+          migration.version,
+          migration.name,
+        ]);
+        await target.exec('COMMIT');
+      } catch (e) {
+        await target.exec('ROLLBACK').catch(() => {});
+        throw new MigrationError(migration.version, migration.name, e);
+      }
+      done.push(migration.version);
+    }
+    return done;
+  } finally {
+    if (dialect === 'postgres') {
+      await target.query('SELECT pg_advisory_unlock(?)', [ADVISORY_LOCK_KEY]).catch(() => {});
+    }
+  }
+}
+
+/** `?` -> `$1, $2, ...` */
+function numberPlaceholders(sql: string): string {
+  let n = 0;
+  return sql.replace(/\?/g, () => `$${++n}`);
+}
+
+/** Target on one Postgres connection (not a pool: the transaction and the lock must share it) */
+export function postgresTarget(client: pg.ClientBase): MigrationTarget {
+  return {
+    dialect: 'postgres',
+    async query(sql, params = []) {
+      return (await client.query(numberPlaceholders(sql), params)).rows;
+    },
+    async exec(sql) {
+      await client.query(sql);
+    },
+  };
+}
+
+export function sqliteTarget(db: Database.Database): MigrationTarget {
+  return {
+    dialect: 'sqlite',
+    async query(sql, params = []) {
+      const statement = db.prepare(sql);
+      if (statement.reader) return statement.all(...params) as Record<string, unknown>[];
+      statement.run(...params);
+      return [];
+    },
+    async exec(sql) {
+      db.exec(sql);
+    },
+  };
+}
@@ -0,0 +1,397 @@
+/**
+ * CommitmentStore on plain Postgres via a connection string (DATABASE_URL). Same schema as the
+ * Supabase backend (migrations/postgres).
+ */
+import pg from 'pg';
+import { appliedVersions, postgresTarget, runMigrations } from './migrate.js';
+import type {
+  CommitmentInsert,
+  CommitmentRecord,
+  CommitmentStore,
+  IndexerCursor,
+  IndexerHeartbeat,
+  NullifierInsert,
+  NullifierRecord,
+  SubmissionRecord,
+} from './store.js';
+
+const COMMITMENT_COLUMNS = 'token, commitment_index, commitment, encrypted_output, transaction_signature, slot, status';
+const COMMITMENT_INSERT_COLUMNS = [
+  'token',
+  'commitment_index',
+  'commitment',
+  'encrypted_output',
+  'mint_address',
+  'transaction_signature',
+  'slot',
+  'status',
+] as const;
+const NULLIFIER_INSERT_COLUMNS = ['nullifier_pda', 'nullifier', 'token', 'transaction_signature', 'slot', 'status'] as const;
+
+/** int8 columns come back as strings */
+function toNumber(value: unknown): number | null {
+  return value == null ? null : Number(value);
+}
+
+function toIso(value: unknown): string | null {
+  if (value == null) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function toRecord(row: Record<string, unknown>): CommitmentRecord {
+  return {
+    ...(row as unknown as CommitmentRecord),
+    commitment_index: Number(row.commitment_index),
+    slot: toNumber(row.slot),
+  };
+}
+
+/** submissions columns plus every signature the row was sent under, oldest first */
+const SUBMISSION_SELECT = `SELECT s.*, ARRAY(SELECT signature FROM submission_signatures
+  WHERE submission_id = s.id ORDER BY created_at, signature) AS signatures FROM submissions s`;
+
+function toSubmission(row: Record<string, unknown>): SubmissionRecord {
+  return {
+    ...(row as unknown as SubmissionRecord),
+    attempts: Number(row.attempts),
+    slot: toNumber(row.slot),
+    created_at: toIso(row.created_at)!,
+    updated_at: toIso(row.updated_at)!,
+  };
+}
+
+/** VALUES ($1, $2, ...), ($n, ...) and the flattened parameters for a multi-row insert */
+function valuesClause<T>(rows: T[], columns: readonly (keyof T)[]): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const tuples = rows.map((row) => {
+    const placeholders = columns.map((column) => {
+      params.push(row[column]);
+      return `$${params.length}`;
+    });
+    return `(${placeholders.join(', ')})`;
+  });
+  return { sql: tuples.join(', '), params };
+}
+
+export function createPostgresStore(connectionString: string): CommitmentStore {
+  const pool = new pg.Pool({ connectionString });
+  pool.on('error', (e) => console.error('Postgres pool error:', e));
+
+  const query = async (sql: string, params: unknown[] = []): Promise<Record<string, unknown>[]> =>
+    (await pool.query(sql, params)).rows;
+
+  return {
+    backend: 'postgres',
+
+    async ping() {
+      await query('SELECT 1');
+    },
+
+    async close() {
+      await pool.end();
+    },
+
+    async schemaVersion() {
+      const client = await pool.connect();
+      try {
+        return Math.max(0, ...(await appliedVersions(postgresTarget(client))));
+      } finally {
+        client.release();
+      }
+    },
+
+    async migrate() {
+      const client = await pool.connect();
+      try {
+        return await runMigrations(postgresTarget(client));
+      } finally {
+        client.release();
+      }
+    },
+
+    async listCommitments({ token, statuses, fromIndex, toIndex, limit, offset = 0 }) {
+      const rows = await query(
+        `SELECT ${COMMITMENT_COLUMNS} FROM commitments
+         WHERE token = $1 AND status = ANY($2) AND ($3::bigint IS NULL OR commitment_index >= $3)
+           AND ($4::bigint IS NULL OR commitment_index < $4)
+         ORDER BY commitment_index, id LIMIT $5 OFFSET $6`,
+        [token, statuses, fromIndex ?? null, toIndex ?? null, limit, offset]
+      );
+      return rows.map(toRecord);
+    },
+
+    async countCommitments(token, statuses) {
+      const [row] = await query('SELECT count(*) AS count FROM commitments WHERE token = $1 AND status = ANY($2)', [
+        token,
+        statuses,
+      ]);
+      return Number(row.count);
+    },
+
+    async findCommitment(token, commitment, statuses) {
+      const [row] = await query(
+        `SELECT ${COMMITMENT_COLUMNS} FROM commitments WHERE commitment = $1 AND token = $2 AND status = ANY($3)`,
+        [commitment, token, statuses]
+      );
+      return row ? toRecord(row) : null;
+    },
+
+    async findByEncryptedOutputs(token, encryptedOutputs, statuses) {
+      const rows = await query(
+        `SELECT ${COMMITMENT_COLUMNS} FROM commitments
+         WHERE token = $1 AND status = ANY($2) AND encrypted_output = ANY($3)`,
+        [token, statuses, encryptedOutputs]
+      );
+      return rows.map(toRecord);
+    },
+
+    async lastIndexedCommitment(token) {
+      const [row] = await query(
+        `SELECT slot, transaction_signature, created_at FROM commitments
+         WHERE token = $1 AND status <> 'orphaned' ORDER BY id DESC LIMIT 1`,
+        [token]
+      );
+      if (!row) return null;
+      return {
+        slot: toNumber(row.slot),
+        transaction_signature: (row.transaction_signature as string | null) ?? null,
+        created_at: toIso(row.created_at)!,
+      };
+    },
+
+    async insertCommitments(rows: CommitmentInsert[]) {
+      if (rows.length === 0) return [];
+      const { sql, params } = valuesClause(rows, COMMITMENT_INSERT_COLUMNS);
+      const inserted = await query(
+        `INSERT INTO commitments (${COMMITMENT_INSERT_COLUMNS.join(', ')}) VALUES ${sql}
+         ON CONFLICT DO NOTHING RETURNING commitment`,
+        params
+      );
+      return inserted.map((r) => r.commitment as string);
+    },
+
+    async reviveCommitment(row) {
+      const updated = await query(
+        `UPDATE commitments SET token = $1, commitment_index = $2, encrypted_output = $3, mint_address = $4,
+           transaction_signature = $5, slot = $6, status = $7
+         WHERE commitment = $8 AND status = 'orphaned' RETURNING id`,
+        [
+          row.token,
+          row.commitment_index,
+          row.encrypted_output,
+          row.mint_address,
+          row.transaction_signature,
+          row.slot,
+          row.status,
+          row.commitment,
+        ]
+      );
+      return updated.length > 0;
+    },
+
+    async confirmedSignaturesUpToSlot(maxSlot, limit) {
+      const rows = await query(
+        `SELECT transaction_signature, slot FROM commitments
+         WHERE status = 'confirmed' AND transaction_signature IS NOT NULL AND (slot IS NULL OR slot <= $1)
+         ORDER BY slot ASC NULLS LAST LIMIT $2`,
+        [maxSlot, limit]
+      );
+      // Rows of one transaction share its slot
+      return [...new Map(rows.map((r) => [r.transaction_signature as string, toNumber(r.slot)]))].map(
+        ([signature, slot]) => ({ signature, slot })
+      );
+    },
+
+    async fillSlot(signature, slot) {
+      await query(
+        `WITH c AS (UPDATE commitments SET slot = $2 WHERE transaction_signature = $1 AND slot IS NULL)
+         UPDATE nullifiers SET slot = $2 WHERE transaction_signature = $1 AND slot IS NULL`,
+        [signature, slot]
+      );
+    },
+
+    async settleCommitments(signatures, status) {
+      if (signatures.length === 0) return [];
+      const rows = await query(
+        `UPDATE commitments SET status = $1 WHERE transaction_signature = ANY($2) AND status = 'confirmed'
+         RETURNING token, commitment_index`,
+        [status, signatures]
+      );
+      return rows.map((r) => ({ token: r.token as string, commitment_index: Number(r.commitment_index) }));
+    },
+
+    async insertNullifiers(rows: NullifierInsert[]) {
+      if (rows.length === 0) return 0;
+      const { sql, params } = valuesClause(rows, NULLIFIER_INSERT_COLUMNS);
+      const inserted = await query(
+        `INSERT INTO nullifiers (${NULLIFIER_INSERT_COLUMNS.join(', ')}) VALUES ${sql}
+         ON CONFLICT (nullifier_pda) DO NOTHING RETURNING id`,
+        params
+      );
+      return inserted.length;
+    },
+
+    async findNullifiers(column, values) {
+      if (values.length === 0) return [];
+      // column is one of two literals, never user input
+      const rows = await query(
+        `SELECT nullifier, nullifier_pda, status, transaction_signature FROM nullifiers WHERE ${column} = ANY($1)`,
+        [values]
+      );
+      return rows as unknown as NullifierRecord[];
+    },
+
+    async finalizeNullifiers(signatures) {
+      if (signatures.length === 0) return;
+      await query(
+        `UPDATE nullifiers SET status = 'finalized' WHERE transaction_signature = ANY($1) AND status = 'confirmed'`,
+        [signatures]
+      );
+    },
+
+    async deleteNullifiers(signatures) {
+      if (signatures.length === 0) return;
+      await query('DELETE FROM nullifiers WHERE transaction_signature = ANY($1)', [signatures]);
+    },
+
+    async loadCursor(programId) {
+      const [row] = await query('SELECT * FROM indexer_cursors WHERE program_id = $1', [programId]);
+      if (!row) return null;
+      return {
+        program_id: row.program_id as string,
+        last_signature: (row.last_signature as string | null) ?? null,
+        last_slot: toNumber(row.last_slot),
+        backfill_tip_signature: (row.backfill_tip_signature as string | null) ?? null,
+        backfill_tip_slot: toNumber(row.backfill_tip_slot),
+        backfill_before_signature: (row.backfill_before_signature as string | null) ?? null,
+      };
+    },
+
+    async saveCursor(cursor: IndexerCursor) {
+      await query(
+        `INSERT INTO indexer_cursors (program_id, last_signature, last_slot, backfill_tip_signature, backfill_tip_slot,
+           backfill_before_signature)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (program_id) DO UPDATE SET last_signature = EXCLUDED.last_signature,
+           last_slot = EXCLUDED.last_slot, backfill_tip_signature = EXCLUDED.backfill_tip_signature,
+           backfill_tip_slot = EXCLUDED.backfill_tip_slot, backfill_before_signature = EXCLUDED.backfill_before_signature`,
+        [
+          cursor.program_id,
+          cursor.last_signature,
+          cursor.last_slot,
+          cursor.backfill_tip_signature,
+          cursor.backfill_tip_slot,
+          cursor.backfill_before_signature,
+        ]
+      );
+    },
+
+    async recordRepair(repair) {
+      await query(
+        `INSERT INTO indexer_repairs (token, from_index, to_index, signatures_scanned, transactions_fetched,
+           rows_inserted, still_missing)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          repair.token,
+          repair.from_index,
+          repair.to_index,
+          repair.signatures_scanned,
+          repair.transactions_fetched,
+          repair.rows_inserted,
+          repair.still_missing,
+        ]
+      );
+    },
+
+    async acquireLease(name, holder, ttlMs) {
+      const [row] = await query('SELECT acquire_indexer_lease($1, $2, $3) AS acquired', [name, holder, ttlMs]);
+      return row.acquired === true;
+    },
+
+    async releaseLease(name, holder) {
+      await query('SELECT release_indexer_lease($1, $2)', [name, holder]);
+    },
+
+    async saveHeartbeat(heartbeat) {
+      await query(
+        `INSERT INTO indexer_status (program_id, holder, ingest_modes, subscription_state, last_notification_at,
+           heartbeat_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (program_id) DO UPDATE SET holder = EXCLUDED.holder, ingest_modes = EXCLUDED.ingest_modes,
+           subscription_state = EXCLUDED.subscription_state, last_notification_at = EXCLUDED.last_notification_at,
+           heartbeat_at = EXCLUDED.heartbeat_at`,
+        [
+          heartbeat.program_id,
+          heartbeat.holder,
+          heartbeat.ingest_modes,
+          heartbeat.subscription_state,
+          heartbeat.last_notification_at,
+          heartbeat.heartbeat_at,
+        ]
+      );
+    },
+
+    async loadHeartbeat(programId) {
+      const [row] = await query('SELECT * FROM indexer_status WHERE program_id = $1', [programId]);
+      if (!row) return null;
+      return {
+        program_id: row.program_id as string,
+        holder: row.holder as string,
+        ingest_modes: row.ingest_modes as string,
+        subscription_state: row.subscription_state as IndexerHeartbeat['subscription_state'],
+        last_notification_at: toIso(row.last_notification_at),
+        heartbeat_at: toIso(row.heartbeat_at)!,
+      };
+    },
+
+    async createSubmission(row) {
+      await query(
+        `WITH s AS (
+           INSERT INTO submissions (id, kind, token, signature, raw_transaction, blockhash, relayer_signed, root)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING id, signature
+         )
+         INSERT INTO submission_signatures (signature, submission_id) SELECT signature, id FROM s`,
+        [row.id, row.kind, row.token, row.signature, row.raw_transaction, row.blockhash, row.relayer_signed, row.root]
+      );
+    },
+
+    async findSubmission(idOrSignature) {
+      const [row] = await query(
+        `${SUBMISSION_SELECT} WHERE s.id = $1
+           OR s.id = (SELECT submission_id FROM submission_signatures WHERE signature = $1)`,
+        [idOrSignature]
+      );
+      return row ? toSubmission(row) : null;
+    },
+
+    async pendingSubmissions(limit) {
+      const rows = await query(
+        `${SUBMISSION_SELECT} WHERE s.status IN ('sent', 'confirmed') ORDER BY s.created_at LIMIT $1`,
+        [limit]
+      );
+      return rows.map(toSubmission);
+    },
+
+    async resendSubmission(id, attempts, signature, rawTransaction, blockhash) {
+      const claimed = await query(
+        `WITH s AS (
+           UPDATE submissions SET signature = $3, raw_transaction = $4, blockhash = $5, attempts = attempts + 1,
+             status = 'sent'
+           WHERE id = $1 AND attempts = $2 AND status IN ('sent', 'confirmed') RETURNING id
+         )
+         INSERT INTO submission_signatures (signature, submission_id) SELECT $3::text, id FROM s RETURNING submission_id`,
+        [id, attempts, signature, rawTransaction, blockhash]
+      );
+      return claimed.length > 0;
+    },
+
+    async updateSubmission(id, { status, signature, slot, error, error_code, error_reason }) {
+      await query(
+        `UPDATE submissions SET status = $2, signature = COALESCE($3, signature), slot = COALESCE($4, slot),
+           error = COALESCE($5, error), error_code = COALESCE($6, error_code), error_reason = COALESCE($7, error_reason)
+         WHERE id = $1`,
+        [id, status, signature ?? null, slot ?? null, error ?? null, error_code ?? null, error_reason ?? null]
+      );
+    },
+  };
+}
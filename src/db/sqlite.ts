@@ -0,0 +1,369 @@
+/**
+ * CommitmentStore on embedded SQLite (better-sqlite3) for local development and tests.
+ * SQLITE_PATH=:memory: (default) keeps everything in process; a file path persists across restarts.
+ * Schema: migrations/sqlite, applied on startup whatever MIGRATE_ON_START says. better-sqlite3 is
+ * synchronous; methods are async only to satisfy the interface.
+ */
+import Database from 'better-sqlite3';
+import { appliedVersions, runMigrations, sqliteTarget } from './migrate.js';
+import type {
+  CommitmentInsert,
+  CommitmentRecord,
+  CommitmentStatus,
+  CommitmentStore,
+  IndexerCursor,
+  IndexerHeartbeat,
+  NullifierInsert,
+  NullifierRecord,
+  SubmissionInsert,
+  SubmissionRecord,
+} from './store.js';
+
+const COMMITMENT_COLUMNS = 'token, commitment_index, commitment, encrypted_output, transaction_signature, slot, status';
+
+/** `?, ?, ?` for an IN list */
+function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
+
+export function createSqliteStore(path: string): CommitmentStore {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+
+  const all = <T>(sql: string, ...params: unknown[]): T[] => db.prepare(sql).all(...params) as T[];
+  const get = <T>(sql: string, ...params: unknown[]): T | undefined => db.prepare(sql).get(...params) as T | undefined;
+  const run = (sql: string, ...params: unknown[]) => db.prepare(sql).run(...params);
+
+  // Prepared per batch rather than on open: the tables exist only once migrate() has run
+  const insertCommitments = db.transaction((rows: CommitmentInsert[]) => {
+    const insert = db.prepare(
+      `INSERT OR IGNORE INTO commitments
+         (token, commitment_index, commitment, encrypted_output, mint_address, transaction_signature, slot, status)
+       VALUES (@token, @commitment_index, @commitment, @encrypted_output, @mint_address, @transaction_signature, @slot, @status)`
+    );
+    return rows.filter((row) => insert.run(row).changes > 0).map((row) => row.commitment);
+  });
+  const insertNullifiers = db.transaction((rows: NullifierInsert[]) => {
+    const insert = db.prepare(
+      `INSERT OR IGNORE INTO nullifiers (nullifier_pda, nullifier, token, transaction_signature, slot, status)
+       VALUES (@nullifier_pda, @nullifier, @token, @transaction_signature, @slot, @status)`
+    );
+    return rows.filter((row) => insert.run(row).changes > 0).length;
+  });
+  const acquireLease = db.transaction((name: string, holder: string, ttlMs: number): boolean => {
+    const now = Date.now();
+    const current = get<{ holder: string; expires_at: number }>(
+      'SELECT holder, expires_at FROM indexer_leases WHERE name = ?',
+      name
+    );
+    if (current && current.holder !== holder && current.expires_at >= now) return false;
+    run(
+      `INSERT INTO indexer_leases (name, holder, expires_at) VALUES (?, ?, ?)
+       ON CONFLICT (name) DO UPDATE SET holder = excluded.holder, expires_at = excluded.expires_at,
+         acquired_at = CASE WHEN indexer_leases.holder = excluded.holder THEN indexer_leases.acquired_at
+                            ELSE excluded.acquired_at END`,
+      name,
+      holder,
+      now + ttlMs
+    );
+    return true;
+  });
+
+  const createSubmission = db.transaction((row: SubmissionInsert) => {
+    run(
+      `INSERT INTO submissions (id, kind, token, signature, raw_transaction, blockhash, relayer_signed, root)
+       VALUES (@id, @kind, @token, @signature, @raw_transaction, @blockhash, @relayer_signed, @root)`,
+      { ...row, relayer_signed: row.relayer_signed ? 1 : 0 }
+    );
+    run('INSERT INTO submission_signatures (signature, submission_id) VALUES (?, ?)', row.signature, row.id);
+  });
+  const resendSubmission = db.transaction(
+    (id: string, attempts: number, signature: string, rawTransaction: string, blockhash: string): boolean => {
+      const claimed = run(
+        `UPDATE submissions SET signature = ?, raw_transaction = ?, blockhash = ?, attempts = attempts + 1,
+           status = 'sent', updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+         WHERE id = ? AND attempts = ? AND status IN ('sent', 'confirmed')`,
+        signature,
+        rawTransaction,
+        blockhash,
+        id,
+        attempts
+      );
+      if (claimed.changes === 0) return false;
+      run('INSERT INTO submission_signatures (signature, submission_id) VALUES (?, ?)', signature, id);
+      return true;
+    }
+  );
+  const fillSlot = db.transaction((signature: string, slot: number) => {
+    run('UPDATE commitments SET slot = ? WHERE transaction_signature = ? AND slot IS NULL', slot, signature);
+    run('UPDATE nullifiers SET slot = ? WHERE transaction_signature = ? AND slot IS NULL', slot, signature);
+  });
+  /** Rows with their signatures attached */
+  const withSignatures = (rows: Array<Omit<SubmissionRecord, 'signatures'>>): SubmissionRecord[] => {
+    if (rows.length === 0) return [];
+    const signatures = all<{ signature: string; submission_id: string }>(
+      `SELECT signature, submission_id FROM submission_signatures
+       WHERE submission_id IN (${placeholders(rows.length)}) ORDER BY created_at, rowid`,
+      ...rows.map((r) => r.id)
+    );
+    return rows.map((row) => ({
+      ...row,
+      relayer_signed: Boolean(row.relayer_signed),
+      signatures: signatures.filter((s) => s.submission_id === row.id).map((s) => s.signature),
+    }));
+  };
+
+  const statusFilter = (statuses: CommitmentStatus[]) => `status IN (${placeholders(statuses.length)})`;
+
+  return {
+    backend: 'sqlite',
+
+    async ping() {
+      get('SELECT 1');
+    },
+
+    async close() {
+      db.close();
+    },
+
+    async schemaVersion() {
+      return Math.max(0, ...(await appliedVersions(sqliteTarget(db))));
+    },
+
+    async migrate() {
+      return runMigrations(sqliteTarget(db));
+    },
+
+    async listCommitments({ token, statuses, fromIndex, toIndex, limit, offset = 0 }) {
+      return all<CommitmentRecord>(
+        `SELECT ${COMMITMENT_COLUMNS} FROM commitments
+         WHERE token = ? AND ${statusFilter(statuses)} AND commitment_index >= ? AND commitment_index < ?
+         ORDER BY commitment_index, id LIMIT ? OFFSET ?`,
+        token,
+        ...statuses,
+        fromIndex ?? 0,
+        toIndex ?? Number.MAX_SAFE_INTEGER,
+        limit,
+        offset
+      );
+    },
+
+    async countCommitments(token, statuses) {
+      const row = get<{ count: number }>(
+        `SELECT count(*) AS count FROM commitments WHERE token = ? AND ${statusFilter(statuses)}`,
+        token,
+        ...statuses
+      );
+      return row?.count ?? 0;
+    },
+
+    async findCommitment(token, commitment, statuses) {
+      return (
+        get<CommitmentRecord>(
+          `SELECT ${COMMITMENT_COLUMNS} FROM commitments WHERE commitment = ? AND token = ? AND ${statusFilter(statuses)}`,
+          commitment,
+          token,
+          ...statuses
+        ) ?? null
+      );
+    },
+
+    async findByEncryptedOutputs(token, encryptedOutputs, statuses) {
+      if (encryptedOutputs.length === 0) return [];
+      return all<CommitmentRecord>(
+        `SELECT ${COMMITMENT_COLUMNS} FROM commitments
+         WHERE token = ? AND ${statusFilter(statuses)} AND encrypted_output IN (${placeholders(encryptedOutputs.length)})`,
+        token,
+        ...statuses,
+        ...encryptedOutputs
+      );
+    },
+
+    async lastIndexedCommitment(token) {
+      return (
+        get<{ slot: number | null; transaction_signature: string | null; created_at: string }>(
+          `SELECT slot, transaction_signature, created_at FROM commitments
+           WHERE token = ? AND status <> 'orphaned' ORDER BY id DESC LIMIT 1`,
+          token
+        ) ?? null
+      );
+    },
+
+    async insertCommitments(rows) {
+      return insertCommitments(rows);
+    },
+
+    async reviveCommitment(row) {
+      const result = run(
+        `UPDATE commitments SET token = @token, commitment_index = @commitment_index,
+           encrypted_output = @encrypted_output, mint_address = @mint_address,
+           transaction_signature = @transaction_signature, slot = @slot, status = @status,
+           updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+         WHERE commitment = @commitment AND status = 'orphaned'`,
+        row
+      );
+      return result.changes > 0;
+    },
+
+    async confirmedSignaturesUpToSlot(maxSlot, limit) {
+      const rows = all<{ transaction_signature: string; slot: number | null }>(
+        `SELECT transaction_signature, slot FROM commitments
+         WHERE status = 'confirmed' AND transaction_signature IS NOT NULL AND (slot IS NULL OR slot <= ?)
+         ORDER BY slot ASC NULLS LAST LIMIT ?`,
+        maxSlot,
+        limit
+      );
+      // Rows of one transaction share its slot
+      return [...new Map(rows.map((r) => [r.transaction_signature, r.slot]))].map(([signature, slot]) => ({
+        signature,
+        slot,
+      }));
+    },
+
+    async fillSlot(signature, slot) {
+      fillSlot(signature, slot);
+    },
+
+    async settleCommitments(signatures, status) {
+      if (signatures.length === 0) return [];
+      return all<{ token: string; commitment_index: number }>(
+        `UPDATE commitments SET status = ?, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+         WHERE transaction_signature IN (${placeholders(signatures.length)}) AND status = 'confirmed'
+         RETURNING token, commitment_index`,
+        status,
+        ...signatures
+      );
+    },
+
+    async insertNullifiers(rows) {
+      return insertNullifiers(rows);
+    },
+
+    async findNullifiers(column, values) {
+      if (values.length === 0) return [];
+      // column is one of two literals, never user input
+      return all<NullifierRecord>(
+        `SELECT nullifier, nullifier_pda, status, transaction_signature FROM nullifiers
+         WHERE ${column} IN (${placeholders(values.length)})`,
+        ...values
+      );
+    },
+
+    async finalizeNullifiers(signatures) {
+      if (signatures.length === 0) return;
+      run(
+        `UPDATE nullifiers SET status = 'finalized', updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+         WHERE transaction_signature IN (${placeholders(signatures.length)}) AND status = 'confirmed'`,
+        ...signatures
+      );
+    },
+
+    async deleteNullifiers(signatures) {
+      if (signatures.length === 0) return;
+      run(`DELETE FROM nullifiers WHERE transaction_signature IN (${placeholders(signatures.length)})`, ...signatures);
+    },
+
+    async loadCursor(programId) {
+      return get<IndexerCursor>(
+        `SELECT program_id, last_signature, last_slot, backfill_tip_signature, backfill_tip_slot,
+           backfill_before_signature
+         FROM indexer_cursors WHERE program_id = ?`,
+        programId
+      ) ?? null;
+    },
+
+    async saveCursor(cursor) {
+      run(
+        `INSERT INTO indexer_cursors (program_id, last_signature, last_slot, backfill_tip_signature, backfill_tip_slot,
+           backfill_before_signature)
+         VALUES (@program_id, @last_signature, @last_slot, @backfill_tip_signature, @backfill_tip_slot,
+           @backfill_before_signature)
+         ON CONFLICT (program_id) DO UPDATE SET last_signature = excluded.last_signature,
+           last_slot = excluded.last_slot, backfill_tip_signature = excluded.backfill_tip_signature,
+           backfill_tip_slot = excluded.backfill_tip_slot, backfill_before_signature = excluded.backfill_before_signature,
+           updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`,
+        cursor
+      );
+    },
+
+    async recordRepair(repair) {
+      run(
+        `INSERT INTO indexer_repairs (token, from_index, to_index, signatures_scanned, transactions_fetched,
+           rows_inserted, still_missing)
+         VALUES (@token, @from_index, @to_index, @signatures_scanned, @transactions_fetched, @rows_inserted,
+           @still_missing)`,
+        repair
+      );
+    },
+
+    async acquireLease(name, holder, ttlMs) {
+      return acquireLease(name, holder, ttlMs);
+    },
+
+    async releaseLease(name, holder) {
+      run('DELETE FROM indexer_leases WHERE name = ? AND holder = ?', name, holder);
+    },
+
+    async saveHeartbeat(heartbeat) {
+      run(
+        `INSERT INTO indexer_status (program_id, holder, ingest_modes, subscription_state, last_notification_at,
+           heartbeat_at)
+         VALUES (@program_id, @holder, @ingest_modes, @subscription_state, @last_notification_at, @heartbeat_at)
+         ON CONFLICT (program_id) DO UPDATE SET holder = excluded.holder, ingest_modes = excluded.ingest_modes,
+           subscription_state = excluded.subscription_state, last_notification_at = excluded.last_notification_at,
+           heartbeat_at = excluded.heartbeat_at`,
+        heartbeat
+      );
+    },
+
+    async loadHeartbeat(programId) {
+      return get<IndexerHeartbeat>('SELECT * FROM indexer_status WHERE program_id = ?', programId) ?? null;
+    },
+
+    async createSubmission(row) {
+      createSubmission(row);
+    },
+
+    async findSubmission(idOrSignature) {
+      return (
+        withSignatures(
+          all<Omit<SubmissionRecord, 'signatures'>>(
+            `SELECT * FROM submissions WHERE id = ?
+               OR id = (SELECT submission_id FROM submission_signatures WHERE signature = ?)`,
+            idOrSignature,
+            idOrSignature
+          )
+        )[0] ?? null
+      );
+    },
+
+    async pendingSubmissions(limit) {
+      return withSignatures(
+        all<Omit<SubmissionRecord, 'signatures'>>(
+          `SELECT * FROM submissions WHERE status IN ('sent', 'confirmed') ORDER BY created_at LIMIT ?`,
+          limit
+        )
+      );
+    },
+
+    async resendSubmission(id, attempts, signature, rawTransaction, blockhash) {
+      return resendSubmission(id, attempts, signature, rawTransaction, blockhash);
+    },
+
+    async updateSubmission(id, { status, signature, slot, error, error_code, error_reason }) {
+      run(
+        `UPDATE submissions SET status = ?, signature = COALESCE(?, signature), slot = COALESCE(?, slot),
+           error = COALESCE(?, error), error_code = COALESCE(?, error_code), error_reason = COALESCE(?, error_reason),
+           updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+         WHERE id = ?`,
+        status,
+        signature ?? null,
+        slot ?? null,
+        error ?? null,
+        error_code ?? null,
+        error_reason ?? null,
+        id
+      );
+    },
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Storage interface for everything the routes and the indexer persist. Implementations:
+ * Supabase (./supabase.ts), plain Postgres (./postgres.ts) and embedded SQLite (./sqlite.ts; `:memory:`
+ * for tests and offline development). Selected by DB_BACKEND; see getStore() in ./index.ts.
+ * Methods throw on storage errors. Callers chunk large `values` lists themselves.
+ */
+
+import type { DbBackend } from '../config/env.js';
+
+export type { DbBackend };
+
+/** confirmed = seen at 'confirmed'; finalized = tx rooted; orphaned = tx dropped with its fork (never served). */
+export type CommitmentStatus = 'confirmed' | 'finalized' | 'orphaned';
+
+/** Read level requested by clients: `confirmed` (default) or `finalized` (settled leaves only). */
+export type CommitmentLevel = 'confirmed' | 'finalized';
+
+export interface CommitmentRecord {
+  token: string;
+  commitment_index: number;
+  commitment: string;
+  encrypted_output: string;
+  transaction_signature: string | null;
+  slot: number | null;
+  status: CommitmentStatus;
+}
+
+export interface CommitmentInsert {
+  token: string;
+  commitment_index: number;
+  commitment: string;
+  encrypted_output: string;
+  mint_address: string | null;
+  transaction_signature: string;
+  slot: number | null;
+  status: CommitmentStatus;
+}
+
+/** Rows of one token in (commitment_index, id) order */
+export interface CommitmentQuery {
+  token: string;
+  statuses: CommitmentStatus[];
+  /** Inclusive */
+  fromIndex?: number;
+  /** Exclusive */
+  toIndex?: number;
+  limit: number;
+  offset?: number;
+}
+
+export interface NullifierInsert {
+  nullifier_pda: string;
+  nullifier: string | null;
+  token: string | null;
+  transaction_signature: string;
+  slot: number | null;
+  status: CommitmentStatus;
+}
+
+export interface NullifierRecord {
+  nullifier: string | null;
+  nullifier_pda: string;
+  status: string;
+  transaction_signature: string | null;
+}
+
+export interface IndexerCursor {
+  program_id: string;
+  last_signature: string | null;
+  last_slot: number | null;
+  backfill_tip_signature: string | null;
+  backfill_tip_slot: number | null;
+  backfill_before_signature: string | null;
+}
+
+export interface IndexerRepair {
+  token: string;
+  from_index: number;
+  to_index: number;
+  signatures_scanned: number;
+  transactions_fetched: number;
+  rows_inserted: number;
+  still_missing: number;
+}
+
+/** 'disabled' when INGEST_MODES does not include logs */
+export type SubscriptionState = 'connected' | 'reconnecting' | 'disabled';
+
+export interface IndexerHeartbeat {
+  program_id: string;
+  holder: string;
+  ingest_modes: string;
+  subscription_state: SubscriptionState;
+  last_notification_at: string | null;
+  heartbeat_at: string;
+}
+
+export type SubmissionKind = 'deposit' | 'deposit_spl' | 'withdraw' | 'withdraw_spl';
+
+/** sent -> confirmed -> finalized; failed = landed with an error or rejected on send; expired = can no longer land */
+export type SubmissionStatus = 'sent' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+
+export interface SubmissionInsert {
+  id: string;
+  kind: SubmissionKind;
+  token: string | null;
+  signature: string;
+  /** Signed transaction, base64 */
+  raw_transaction: string;
+  blockhash: string;
+  /** Whether the relayer is the only signer and may re-sign with a fresh blockhash */
+  relayer_signed: boolean;
+  /** Proof root of a withdraw; rebroadcasting stops once it leaves the root history */
+  root: string | null;
+}
+
+export interface SubmissionRecord extends SubmissionInsert {
+  status: SubmissionStatus;
+  attempts: number;
+  slot: number | null;
+  /** Fixed, user-safe text of why it failed or expired (never RPC output), with its stable code */
+  error: string | null;
+  error_code: string | null;
+  /** Variant name of a built-in instruction error (see RelayFailure.reason) */
+  error_reason: string | null;
+  /** Every signature it was sent under, oldest first; `signature` is the latest */
+  signatures: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SubmissionUpdate {
+  status: SubmissionStatus;
+  /** The signature that landed, when it is not the latest */
+  signature?: string;
+  slot?: number | null;
+  error?: string | null;
+  error_code?: string | null;
+  error_reason?: string | null;
+}
+
+export interface CommitmentStore {
+  readonly backend: DbBackend;
+  /** Cheap round trip for /health */
+  ping(): Promise<void>;
+  /** Highest version in schema_migrations; 0 before the first migration */
+  schemaVersion(): Promise<number>;
+  /** Apply pending migrations (./migrate.ts); returns the versions applied */
+  migrate(): Promise<number[]>;
+  /** Release the connection pool or file handle on shutdown; the store is unusable afterwards */
+  close(): Promise<void>;
+
+  listCommitments(query: CommitmentQuery): Promise<CommitmentRecord[]>;
+  countCommitments(token: string, statuses: CommitmentStatus[]): Promise<number>;
+  findCommitment(token: string, commitment: string, statuses: CommitmentStatus[]): Promise<CommitmentRecord | null>;
+  findByEncryptedOutputs(
+    token: string,
+    encryptedOutputs: string[],
+    statuses: CommitmentStatus[]
+  ): Promise<CommitmentRecord[]>;
+  /** Most recently written non-orphaned row of the token */
+  lastIndexedCommitment(
+    token: string
+  ): Promise<{ slot: number | null; transaction_signature: string | null; created_at: string } | null>;
+  /** Insert rows whose commitment is not stored yet; returns the commitments inserted. */
+  insertCommitments(rows: CommitmentInsert[]): Promise<string[]>;
+  /** Overwrite the orphaned row holding row.commitment, if there is one; returns whether it did. */
+  reviveCommitment(row: CommitmentInsert): Promise<boolean>;
+  /** Distinct signatures of confirmed rows with slot <= maxSlot, oldest slot first, then those with no slot */
+  confirmedSignaturesUpToSlot(maxSlot: number, limit: number): Promise<Array<{ signature: string; slot: number | null }>>;
+  /** Set the slot of this transaction's commitment and nullifier rows that have none */
+  fillSlot(signature: string, slot: number): Promise<void>;
+  /** Move the confirmed rows of these transactions to `status`; returns the rows changed. */
+  settleCommitments(
+    signatures: string[],
+    status: 'finalized' | 'orphaned'
+  ): Promise<Array<{ token: string; commitment_index: number }>>;
+
+  /** Insert rows whose nullifier_pda is not stored yet; returns how many were inserted. */
+  insertNullifiers(rows: NullifierInsert[]): Promise<number>;
+  findNullifiers(column: 'nullifier' | 'nullifier_pda', values: string[]): Promise<NullifierRecord[]>;
+  finalizeNullifiers(signatures: string[]): Promise<void>;
+  deleteNullifiers(signatures: string[]): Promise<void>;
+
+  loadCursor(programId: string): Promise<IndexerCursor | null>;
+  saveCursor(cursor: IndexerCursor): Promise<void>;
+  recordRepair(repair: IndexerRepair): Promise<void>;
+  /** Take or renew the named lease; true if `holder` holds it afterwards. Expiry uses the store's clock. */
+  acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean>;
+  releaseLease(name: string, holder: string): Promise<void>;
+  saveHeartbeat(heartbeat: IndexerHeartbeat): Promise<void>;
+  loadHeartbeat(programId: string): Promise<IndexerHeartbeat | null>;
+
+  /** Record a relayed transaction together with its first signature */
+  createSubmission(row: SubmissionInsert): Promise<void>;
+  /** The submission with this id, or the one sent under this signature */
+  findSubmission(idOrSignature: string): Promise<SubmissionRecord | null>;
+  /** Submissions still sent or confirmed, oldest first */
+  pendingSubmissions(limit: number): Promise<SubmissionRecord[]>;
+  /**
+   * Claim a rebroadcast: record the new signature and blockhash, bump attempts and reset status to
+   * sent, but only while the row is still pending at `attempts`. Returns false when another process
+   * got there first, in which case the caller must not send.
+   */
+  resendSubmission(
+    id: string,
+    attempts: number,
+    signature: string,
+    rawTransaction: string,
+    blockhash: string
+  ): Promise<boolean>;
+  updateSubmission(id: string, update: SubmissionUpdate): Promise<void>;
+}
@@ -0,0 +1,338 @@
+/**
+ * CommitmentStore on Supabase (PostgREST). Schema: migrations/postgres. PostgREST cannot run DDL, so
+ * migrate() connects to the project's Postgres directly and needs its connection string.
+ */
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import pg from 'pg';
+import { postgresTarget, runMigrations } from './migrate.js';
+import type {
+  CommitmentRecord,
+  CommitmentStore,
+  IndexerCursor,
+  IndexerHeartbeat,
+  NullifierRecord,
+  SubmissionRecord,
+} from './store.js';
+
+const COMMITMENT_COLUMNS = 'token, commitment_index, commitment, encrypted_output, transaction_signature, slot, status';
+
+function check(error: { message: string } | null, what: string): void {
+  if (error) throw new Error(`${what}: ${error.message}`);
+}
+
+function toRecord(row: Record<string, unknown>): CommitmentRecord {
+  return {
+    ...(row as unknown as CommitmentRecord),
+    commitment_index: Number(row.commitment_index),
+    slot: row.slot == null ? null : Number(row.slot),
+  };
+}
+
+/** submissions columns with their signatures embedded through the foreign key */
+const SUBMISSION_COLUMNS = '*, submission_signatures(signature, created_at)';
+
+function toSubmission(row: Record<string, unknown>): SubmissionRecord {
+  const { submission_signatures: sent, ...rest } = row as { submission_signatures?: Array<{ signature: string; created_at: string }> };
+  return {
+    ...(rest as unknown as SubmissionRecord),
+    slot: row.slot == null ? null : Number(row.slot),
+    signatures: (sent ?? [])
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((s) => s.signature),
+  };
+}
+
+/** PostgREST error codes for a table that does not exist */
+const MISSING_TABLE_CODES = new Set(['42P01', 'PGRST205']);
+
+export function createSupabaseStore(url: string, serviceKey: string, databaseUrl: string): CommitmentStore {
+  const db: SupabaseClient = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+  return {
+    backend: 'supabase',
+
+    async ping() {
+      const { error } = await db.from('commitments').select('id').limit(1);
+      check(error, 'Database ping failed');
+    },
+
+    // PostgREST calls are plain HTTP requests; there is no pool to release
+    async close() {},
+
+    async schemaVersion() {
+      const { data, error } = await db
+        .from('schema_migrations')
+        .select('version')
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error && MISSING_TABLE_CODES.has(error.code)) return 0;
+      check(error, 'Failed to read schema version');
+      return data ? Number(data.version) : 0;
+    },
+
+    async migrate() {
+      if (!databaseUrl) {
+        throw new Error('Migrating a Supabase database needs DATABASE_URL (the project\'s Postgres connection string)');
+      }
+      const client = new pg.Client({ connectionString: databaseUrl });
+      await client.connect();
+      try {
+        return await runMigrations(postgresTarget(client));
+      } finally {
+        await client.end();
+      }
+    },
+
+    async listCommitments({ token, statuses, fromIndex, toIndex, limit, offset = 0 }) {
+      let query = db.from('commitments').select(COMMITMENT_COLUMNS).eq('token', token).in('status', statuses);
+      if (fromIndex !== undefined) query = query.gte('commitment_index', fromIndex);
+      if (toIndex !== undefined) query = query.lt('commitment_index', toIndex);
+      const { data, error } = await query
+        .order('commitment_index', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + limit - 1);
+      check(error, 'Failed to read commitments');
+      return (data ?? []).map(toRecord);
+    },
+
+    async countCommitments(token, statuses) {
+      const { count, error } = await db
+        .from('commitments')
+        .select('*', { count: 'exact', head: true })
+        .eq('token', token)
+        .in('status', statuses);
+      check(error, 'Failed to count commitments');
+      return count ?? 0;
+    },
+
+    async findCommitment(token, commitment, statuses) {
+      const { data, error } = await db
+        .from('commitments')
+        .select(COMMITMENT_COLUMNS)
+        .eq('commitment', commitment)
+        .eq('token', token)
+        .in('status', statuses)
+        .maybeSingle();
+      check(error, 'Failed to look up commitment');
+      return data ? toRecord(data) : null;
+    },
+
+    async findByEncryptedOutputs(token, encryptedOutputs, statuses) {
+      const { data, error } = await db
+        .from('commitments')
+        .select(COMMITMENT_COLUMNS)
+        .eq('token', token)
+        .in('status', statuses)
+        .in('encrypted_output', encryptedOutputs);
+      check(error, 'Failed to look up encrypted outputs');
+      return (data ?? []).map(toRecord);
+    },
+
+    async lastIndexedCommitment(token) {
+      const { data, error } = await db
+        .from('commitments')
+        .select('slot, transaction_signature, created_at')
+        .eq('token', token)
+        .neq('status', 'orphaned')
+        .order('id', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      check(error, 'Failed to read last indexed commitment');
+      return data ? { ...data, slot: data.slot == null ? null : Number(data.slot) } : null;
+    },
+
+    async insertCommitments(rows) {
+      if (rows.length === 0) return [];
+      const { data, error } = await db
+        .from('commitments')
+        .upsert(rows, { onConflict: 'commitment', ignoreDuplicates: true })
+        .select('commitment');
+      check(error, 'Indexer insert error');
+      return (data ?? []).map((r) => r.commitment as string);
+    },
+
+    async reviveCommitment(row) {
+      const { data, error } = await db
+        .from('commitments')
+        .update(row)
+        .eq('commitment', row.commitment)
+        .eq('status', 'orphaned')
+        .select('id');
+      check(error, 'Indexer revive error');
+      return (data?.length ?? 0) > 0;
+    },
+
+    async confirmedSignaturesUpToSlot(maxSlot, limit) {
+      const { data, error } = await db
+        .from('commitments')
+        .select('transaction_signature, slot')
+        .eq('status', 'confirmed')
+        .not('transaction_signature', 'is', null)
+        .or(`slot.is.null,slot.lte.${maxSlot}`)
+        .order('slot', { ascending: true, nullsFirst: false })
+        .limit(limit);
+      check(error, 'Finality: failed to read commitments');
+      // Rows of one transaction share its slot
+      return [...new Map((data ?? []).map((r) => [r.transaction_signature as string, r.slot as number | null]))].map(
+        ([signature, slot]) => ({ signature, slot })
+      );
+    },
+
+    async fillSlot(signature, slot) {
+      for (const table of ['commitments', 'nullifiers']) {
+        const { error } = await db.from(table).update({ slot }).eq('transaction_signature', signature).is('slot', null);
+        check(error, `Finality: failed to fill ${table} slot`);
+      }
+    },
+
+    async settleCommitments(signatures, status) {
+      if (signatures.length === 0) return [];
+      const { data, error } = await db
+        .from('commitments')
+        .update({ status })
+        .in('transaction_signature', signatures)
+        .eq('status', 'confirmed')
+        .select('token, commitment_index');
+      check(error, `Finality: failed to mark rows ${status}`);
+      return (data ?? []).map((r) => ({ token: r.token as string, commitment_index: Number(r.commitment_index) }));
+    },
+
+    async insertNullifiers(rows) {
+      if (rows.length === 0) return 0;
+      const { data, error } = await db
+        .from('nullifiers')
+        .upsert(rows, { onConflict: 'nullifier_pda', ignoreDuplicates: true })
+        .select('id');
+      check(error, 'Nullifier insert error');
+      return data?.length ?? 0;
+    },
+
+    async findNullifiers(column, values) {
+      if (values.length === 0) return [];
+      const { data, error } = await db
+        .from('nullifiers')
+        .select('nullifier, nullifier_pda, status, transaction_signature')
+        .in(column, values);
+      check(error, 'Nullifier lookup failed');
+      return (data ?? []) as NullifierRecord[];
+    },
+
+    async finalizeNullifiers(signatures) {
+      if (signatures.length === 0) return;
+      const { error } = await db
+        .from('nullifiers')
+        .update({ status: 'finalized' })
+        .in('transaction_signature', signatures)
+        .eq('status', 'confirmed');
+      check(error, 'Finality: failed to finalize nullifiers');
+    },
+
+    async deleteNullifiers(signatures) {
+      if (signatures.length === 0) return;
+      const { error } = await db.from('nullifiers').delete().in('transaction_signature', signatures);
+      check(error, 'Finality: failed to remove orphaned nullifiers');
+    },
+
+    async loadCursor(programId) {
+      const { data, error } = await db.from('indexer_cursors').select('*').eq('program_id', programId).maybeSingle();
+      check(error, 'Failed to load indexer cursor');
+      return (data as IndexerCursor | null) ?? null;
+    },
+
+    async saveCursor(cursor) {
+      const { error } = await db.from('indexer_cursors').upsert(cursor, { onConflict: 'program_id' });
+      check(error, 'Failed to save indexer cursor');
+    },
+
+    async recordRepair(repair) {
+      const { error } = await db.from('indexer_repairs').insert(repair);
+      check(error, 'Failed to record repair');
+    },
+
+    async acquireLease(name, holder, ttlMs) {
+      const { data, error } = await db.rpc('acquire_indexer_lease', { p_name: name, p_holder: holder, p_ttl_ms: ttlMs });
+      check(error, 'Lease acquire failed');
+      return data === true;
+    },
+
+    async releaseLease(name, holder) {
+      const { error } = await db.rpc('release_indexer_lease', { p_name: name, p_holder: holder });
+      check(error, 'Lease release failed');
+    },
+
+    async saveHeartbeat(heartbeat) {
+      const { error } = await db.from('indexer_status').upsert(heartbeat, { onConflict: 'program_id' });
+      check(error, 'Heartbeat failed');
+    },
+
+    async loadHeartbeat(programId) {
+      const { data, error } = await db.from('indexer_status').select('*').eq('program_id', programId).maybeSingle();
+      check(error, 'Failed to read indexer heartbeat');
+      return data as IndexerHeartbeat | null;
+    },
+
+    async createSubmission(row) {
+      const { error } = await db.from('submissions').insert(row);
+      check(error, 'Failed to record submission');
+      const { error: signatureError } = await db
+        .from('submission_signatures')
+        .insert({ signature: row.signature, submission_id: row.id });
+      check(signatureError, 'Failed to record submission signature');
+    },
+
+    async findSubmission(idOrSignature) {
+      const { data: sent, error: signatureError } = await db
+        .from('submission_signatures')
+        .select('submission_id')
+        .eq('signature', idOrSignature)
+        .maybeSingle();
+      check(signatureError, 'Submission lookup failed');
+      const { data, error } = await db
+        .from('submissions')
+        .select(SUBMISSION_COLUMNS)
+        .eq('id', (sent?.submission_id as string | undefined) ?? idOrSignature)
+        .maybeSingle();
+      check(error, 'Submission lookup failed');
+      return data ? toSubmission(data) : null;
+    },
+
+    async pendingSubmissions(limit) {
+      const { data, error } = await db
+        .from('submissions')
+        .select(SUBMISSION_COLUMNS)
+        .in('status', ['sent', 'confirmed'])
+        .order('created_at', { ascending: true })
+        .limit(limit);
+      check(error, 'Failed to list pending submissions');
+      return (data ?? []).map(toSubmission);
+    },
+
+    async resendSubmission(id, attempts, signature, rawTransaction, blockhash) {
+      // PostgREST cannot increment in place; matching on attempts makes the write a compare-and-set
+      const { data, error } = await db
+        .from('submissions')
+        .update({ signature, raw_transaction: rawTransaction, blockhash, attempts: attempts + 1, status: 'sent' })
+        .eq('id', id)
+        .eq('attempts', attempts)
+        .in('status', ['sent', 'confirmed'])
+        .select('id');
+      check(error, 'Failed to record rebroadcast');
+      if (!data?.length) return false;
+      const { error: signatureError } = await db.from('submission_signatures').insert({ signature, submission_id: id });
+      check(signatureError, 'Failed to record submission signature');
+      return true;
+    },
+
+    async updateSubmission(id, { status, signature, slot, error: failure, error_code, error_reason }) {
+      const update: Record<string, unknown> = { status };
+      if (signature) update.signature = signature;
+      if (slot != null) update.slot = slot;
+      if (failure != null) update.error = failure;
+      if (error_code != null) update.error_code = error_code;
+      if (error_reason != null) update.error_reason = error_reason;
+      const { error } = await db.from('submissions').update(update).eq('id', id);
+      check(error, 'Failed to update submission');
+    },
+  };
+}
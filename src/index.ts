@@ -8,12 +8,26 @@ import depositRouter from './routes/deposit.js';
 import depositSplRouter from './routes/depositSpl.js';
 import withdrawRouter from './routes/withdraw.js';
 import withdrawSplRouter from './routes/withdrawSpl.js';
+import nullifiersRouter from './routes/nullifiers.js';
+import ingestRouter from './routes/ingest.js';
+import indexerRouter from './routes/indexer.js';
+import streamRouter, { attachCommitmentSocket, closeCommitmentStreams } from './routes/stream.js';
+import snapshotsRouter from './routes/snapshots.js';
+import relayerRouter from './routes/relayer.js';
+import txRouter from './routes/tx.js';
 import { config, validateConfig } from './config/env.js';
 import { generalLimiter, relayLimiter, safeErrorHandler } from './middleware/security.js';
-import { getDb } from './db/index.js';
-import { startIndexer } from './indexer/index.js';
+import { ensureSchema, getStore } from './db/index.js';
+import { startLeasedIndexer } from './indexer/index.js';
+import { getIndexerStatus } from './indexer/status.js';
+import { loadIdls } from './solana/idl.js';
+import { startSnapshots } from './snapshots/index.js';
+import { startSubmissionTracker } from './relayer/submissions.js';
 
-validateConfig();
+validateConfig({ relayer: true });
+
+/** In-flight requests get this long to finish on shutdown before their connections are cut */
+const SHUTDOWN_GRACE_MS = 10_000;
 
 const app = express();
 
@@ -25,6 +39,9 @@ app.use(
     allowedHeaders: ['Content-Type'],
   })
 );
+// Raw body for HMAC verification; must come before express.json and the general limiter
+app.use('/ingest', ingestRouter);
+
 app.use(express.json({ limit: '512kb' }));
 
 app.use(generalLimiter);
@@ -32,6 +49,12 @@ app.use(generalLimiter);
 app.use('/config', configRouter);
 app.use('/merkle', merkleRouter);
 app.use('/utxos', utxosRouter);
+app.use('/nullifiers', nullifiersRouter);
+app.use('/indexer', indexerRouter);
+app.use('/stream', streamRouter);
+app.use('/snapshots', snapshotsRouter);
+app.use('/relayer', relayerRouter);
+app.use('/tx', txRouter);
 app.use('/deposit', relayLimiter, depositRouter);
 app.use('/deposit/spl', relayLimiter, depositSplRouter);
 app.use('/withdraw', relayLimiter, withdrawRouter);
@@ -42,8 +65,7 @@ app.get('/health', async (_req, res) => {
   let database: 'ok' | 'error' = 'ok';
   let errorMessage: string | undefined;
   try {
-    const db = getDb();
-    await db.from('commitments').select('id').limit(1);
+    await getStore().ping();
   } catch (err) {
     database = 'error';
     errorMessage = err instanceof Error ? err.message : 'Connection failed';
@@ -55,26 +77,94 @@ app.get('/health', async (_req, res) => {
       error: errorMessage,
     });
   }
-  res.json({ status: 'ok', timestamp, database });
+  // Degraded while this node's trees lag the chain, so load balancers stop routing proof requests here
+  try {
+    const { lagging, tokens } = await getIndexerStatus();
+    if (lagging) {
+      return res.status(503).json({
+        status: 'degraded',
+        timestamp,
+        database,
+        indexer: 'lagging',
+        lag: tokens.map(({ token, lagLeaves, lagSeconds }) => ({ token, lagLeaves, lagSeconds })),
+      });
+    }
+  } catch (err) {
+    console.error('Indexer status error:', err);
+    return res.status(503).json({ status: 'degraded', timestamp, database, indexer: 'error' });
+  }
+  res.json({ status: 'ok', timestamp, database, indexer: 'ok' });
 });
 
 app.use(safeErrorHandler);
 
-app.listen(config.port, () => {
-  console.log(`Shade API running at http://localhost:${config.port}`);
-  console.log('Endpoints:');
-  console.log('  GET  /health       (includes DB connection check)');
-  console.log('  GET  /config');
-  console.log('  GET  /merkle/root');
-  console.log('  GET  /merkle/path?token=&leafIndex=');
-  console.log('  GET  /merkle/proof/:commitment');
-  console.log('  GET  /utxos/range');
-  console.log('  GET  /utxos/check/:encryptedOutput');
-  console.log('  POST /utxos/indices');
-  console.log('  POST /deposit');
-  console.log('  POST /deposit/spl');
-  console.log('  GET  /withdraw/relayer-address');
-  console.log('  POST /withdraw');
-  console.log('  POST /withdraw/spl');
-  startIndexer();
-});
+ensureSchema()
+  .then(() => {
+    let stopIndexer: (() => Promise<void>) | null = null;
+    const server = app.listen(config.port, () => {
+      console.log(`Shade API running at http://localhost:${config.port}`);
+      console.log('Endpoints:');
+      console.log('  GET  /health       (includes DB connection and indexer lag check)');
+      console.log('  GET  /indexer/status');
+      console.log('  GET  /stream/commitments?token=&fromIndex=   (SSE; WebSocket on the same path)');
+      console.log('  GET  /config');
+      console.log('  GET  /merkle/root');
+      console.log('  GET  /merkle/roots?token=');
+      console.log('  GET  /merkle/roots/:root/known?token=');
+      console.log('  GET  /merkle/path?token=&leafIndex=');
+      console.log('  GET  /merkle/verify?token=');
+      console.log('  GET  /merkle/proof/:commitment');
+      console.log('  GET  /utxos/range');
+      console.log('  GET  /snapshots/:token/latest');
+      console.log('  GET  /snapshots/:token/:id');
+      console.log('  GET  /utxos/check/:encryptedOutput');
+      console.log('  POST /utxos/indices');
+      console.log('  POST /nullifiers/check');
+      console.log('  POST /ingest/webhook');
+      console.log('  POST /deposit');
+      console.log('  POST /deposit/spl');
+      console.log('  GET  /withdraw/relayer-address');
+      console.log('  POST /relayer/quote');
+      console.log('  POST /withdraw');
+      console.log('  POST /withdraw/spl');
+      console.log('  GET  /tx/:id   (submissionId or signature)');
+      loadIdls()
+        .then(() => {
+          if (config.indexerEnabled) stopIndexer = startLeasedIndexer();
+          else console.log('Indexer disabled in this process (INDEXER_ENABLED=false)');
+        })
+        .catch((e) => {
+          console.error('Failed to load Shade IDL:', e);
+          process.exit(1);
+        });
+    });
+    attachCommitmentSocket(server);
+    const stopSnapshots = startSnapshots();
+    // Every replica starts it, whatever INDEXER_ENABLED says; only the holder of the submissions
+    // lease runs passes. SUBMISSION_POLL_INTERVAL_MS=0 keeps a replica out of it.
+    const stopSubmissionTracker = startSubmissionTracker();
+
+    // Stop taking requests and background work, release the indexer lease, then the DB
+    let shuttingDown = false;
+    const shutdown = (signal: string): void => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      console.log(`${signal} received, shutting down`);
+      stopSnapshots();
+      stopSubmissionTracker();
+      closeCommitmentStreams();
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+      server.closeIdleConnections();
+      setTimeout(() => server.closeAllConnections(), SHUTDOWN_GRACE_MS).unref();
+      Promise.all([closed, stopIndexer?.()])
+        .then(() => getStore().close())
+        .catch((e) => console.error('Shutdown error:', e))
+        .finally(() => process.exit(0));
+    };
+    process.once('SIGINT', () => shutdown('SIGINT'));
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+  })
+  .catch((e) => {
+    console.error('Database schema check failed:', e);
+    process.exit(1);
+  });
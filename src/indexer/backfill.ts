@@ -0,0 +1,98 @@
+/**
+ * Full-history backfill with a durable per-program cursor (indexer_cursors table).
+ *
+ * getSignaturesForAddress pages newest -> oldest, so a run walks backwards from a fixed tip
+ * down to the stored checkpoint (or to program deployment on first run):
+ *   - backfill_tip_*           the newest signature seen when the walk started
+ *   - backfill_before_signature the oldest signature processed so far in this walk
+ * Both are saved after every page, so a restart resumes the same walk. When the walk reaches the
+ * checkpoint, the tip becomes the new last_signature/last_slot and the walk fields are cleared.
+ */
+import { config } from '../config/env.js';
+import { getStore, IndexerCursor } from '../db/index.js';
+import { indexTransaction } from './ingest.js';
+import { fetchProgramSignatures, fetchTransaction } from './rpc.js';
+
+const SIGNATURE_PAGE_SIZE = 1000;
+
+async function loadCursor(programId: string): Promise<IndexerCursor> {
+  return (
+    (await getStore().loadCursor(programId)) ?? {
+      program_id: programId,
+      last_signature: null,
+      last_slot: null,
+      backfill_tip_signature: null,
+      backfill_tip_slot: null,
+      backfill_before_signature: null,
+    }
+  );
+}
+
+function saveCursor(cursor: IndexerCursor): Promise<void> {
+  return getStore().saveCursor(cursor);
+}
+
+/**
+ * Index every program transaction between the stored checkpoint and the current tip.
+ * Returns the number of transactions fetched. Aborting `signal` stops it between transactions;
+ * the unfinished page is redone from the cursor on the next run.
+ */
+export async function runBackfill(signal?: AbortSignal): Promise<number> {
+  const programId = config.programId.toBase58();
+  const cursor = await loadCursor(programId);
+
+  if (!cursor.backfill_tip_signature) {
+    const [newest] = await fetchProgramSignatures({ limit: 1 });
+    if (!newest || newest.signature === cursor.last_signature) return 0;
+    cursor.backfill_tip_signature = newest.signature;
+    cursor.backfill_tip_slot = newest.slot;
+    cursor.backfill_before_signature = null;
+    await saveCursor(cursor);
+  }
+
+  console.log(
+    `Shade indexer: backfill from ${cursor.backfill_before_signature ?? cursor.backfill_tip_signature} ` +
+      `back to ${cursor.last_signature ?? 'program deployment'}`
+  );
+
+  let fetched = 0;
+  let includeTip = cursor.backfill_before_signature === null;
+  for (;;) {
+    const page = await fetchProgramSignatures({
+      before: cursor.backfill_before_signature ?? cursor.backfill_tip_signature ?? undefined,
+      until: cursor.last_signature ?? undefined,
+      limit: SIGNATURE_PAGE_SIZE,
+    });
+    // `before` is exclusive, so the tip itself is fetched once on a fresh walk
+    const sigs: Array<{ signature: string; slot: number; err: unknown; confirmationStatus?: string }> =
+      includeTip && cursor.backfill_tip_signature
+        ? [{ signature: cursor.backfill_tip_signature, slot: cursor.backfill_tip_slot ?? 0, err: null }, ...page]
+        : page;
+    includeTip = false;
+
+    for (const sigInfo of sigs) {
+      signal?.throwIfAborted();
+      if (sigInfo.err) continue;
+      const tx = await fetchTransaction(sigInfo.signature);
+      fetched++;
+      if (tx) {
+        const status = sigInfo.confirmationStatus === 'finalized' ? 'finalized' : 'confirmed';
+        await indexTransaction(tx, sigInfo.signature, status);
+      }
+    }
+
+    if (page.length === 0) break;
+    cursor.backfill_before_signature = page[page.length - 1].signature;
+    await saveCursor(cursor);
+    if (page.length < SIGNATURE_PAGE_SIZE) break;
+  }
+
+  cursor.last_signature = cursor.backfill_tip_signature;
+  cursor.last_slot = cursor.backfill_tip_slot;
+  cursor.backfill_tip_signature = null;
+  cursor.backfill_tip_slot = null;
+  cursor.backfill_before_signature = null;
+  await saveCursor(cursor);
+  console.log(`Shade indexer: backfill done (${fetched} transactions), checkpoint slot ${cursor.last_slot}`);
+  return fetched;
+}
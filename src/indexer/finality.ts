@@ -0,0 +1,159 @@
+/**
+ * Finality tracking for indexed commitments.
+ *
+ * Rows are written at 'confirmed'. Each pass takes confirmed rows at or below the current finalized
+ * slot and asks the RPC for their transactions' status: rooted transactions promote their rows to
+ * 'finalized'; transactions that failed mark their rows 'orphaned', which hides them from every read
+ * and forces the affected trees to rebuild. Nullifier rows of those transactions are promoted or
+ * deleted alongside. Rows indexed before slot tracking (slot null) get their transaction's slot here.
+ *
+ * A missing status is not proof of a dropped fork: RPCs without full history have none for old
+ * transactions. Such a row is only orphaned once the finalized block at its slot is known to lack
+ * the transaction (or the slot was skipped); when that block cannot be read, or the row has no slot
+ * to look up, it is left confirmed and logged.
+ */
+import { config } from '../config/env.js';
+import { getStore } from '../db/index.js';
+import { getConnection } from '../solana/connection.js';
+import { withRetry } from '../lib/throttle.js';
+import { chunk } from '../lib/batch.js';
+import { resetTree } from '../merkle/index.js';
+import { notifyFeed } from '../stream/feed.js';
+import { invalidatePrefix } from './repair.js';
+import { throttleRpc } from './rpc.js';
+
+const ROW_BATCH_SIZE = 1000;
+/** getSignatureStatuses accepts at most 256 signatures per call */
+const STATUS_BATCH_SIZE = 256;
+/** getBlock error for a slot without a block; only definitive at or above the first available block */
+const SLOT_SKIPPED = -32007;
+/** getBlock errors for blocks this RPC does not have (not yet, purged, or not in long-term storage) */
+const BLOCK_UNAVAILABLE = new Set([-32004, -32009, -32011]);
+
+/** Signatures in the finalized block at a slot; 'skipped' when it has none, 'unavailable' when this RPC cannot tell */
+type FinalizedBlock = Set<string> | 'skipped' | 'unavailable';
+
+async function readFinalizedBlock(slot: number, firstAvailableBlock: () => Promise<number>): Promise<FinalizedBlock> {
+  const connection = getConnection();
+  await throttleRpc();
+  return withRetry(async (): Promise<FinalizedBlock> => {
+    try {
+      const block = await connection.getBlock(slot, {
+        commitment: 'finalized',
+        maxSupportedTransactionVersion: 0,
+        transactionDetails: 'accounts',
+        rewards: false,
+      });
+      return block ? new Set(block.transactions.flatMap((t) => t.transaction.signatures)) : 'unavailable';
+    } catch (e) {
+      const code = (e as { code?: unknown }).code;
+      if (code === SLOT_SKIPPED) return slot >= (await firstAvailableBlock()) ? 'skipped' : 'unavailable';
+      if (typeof code === 'number' && BLOCK_UNAVAILABLE.has(code)) return 'unavailable';
+      throw e;
+    }
+  });
+}
+
+export interface FinalityResult {
+  finalizedSlot: number;
+  finalized: number;
+  orphaned: number;
+}
+
+export async function runFinalityPass(): Promise<FinalityResult> {
+  const connection = getConnection();
+  const store = getStore();
+  await throttleRpc();
+  const finalizedSlot = await withRetry(() => connection.getSlot('finalized'));
+
+  const rows = await store.confirmedSignaturesUpToSlot(finalizedSlot, ROW_BATCH_SIZE);
+  const finalizedSigs: string[] = [];
+  const orphanedSigs: string[] = [];
+  const missingSlots: Array<{ signature: string; slot: number }> = [];
+  /** No status: settled by the block at their slot */
+  const unknown: Array<{ signature: string; slot: number }> = [];
+  let unsettled = 0;
+  for (const batch of chunk(rows, STATUS_BATCH_SIZE)) {
+    const signatures = batch.map((r) => r.signature);
+    await throttleRpc();
+    const { value } = await withRetry(() =>
+      connection.getSignatureStatuses(signatures, { searchTransactionHistory: true })
+    );
+    batch.forEach(({ signature, slot }, i) => {
+      const status = value[i];
+      // Rows indexed before slot tracking have none; take it from the status
+      if (status && slot === null) missingSlots.push({ signature, slot: status.slot });
+      if (status === null) {
+        if (slot === null) unsettled++;
+        else unknown.push({ signature, slot });
+      } else if (status.err) {
+        orphanedSigs.push(signature);
+      } else if (status.confirmationStatus === 'finalized') {
+        finalizedSigs.push(signature);
+      }
+    });
+  }
+
+  const blocks = new Map<number, FinalizedBlock>();
+  let firstAvailable: Promise<number> | undefined;
+  const firstAvailableBlock = () => (firstAvailable ??= withRetry(() => connection.getFirstAvailableBlock()));
+  for (const { signature, slot } of unknown) {
+    if (!blocks.has(slot)) blocks.set(slot, await readFinalizedBlock(slot, firstAvailableBlock));
+    const block = blocks.get(slot)!;
+    if (block === 'unavailable') unsettled++;
+    else if (block !== 'skipped' && block.has(signature)) finalizedSigs.push(signature);
+    else orphanedSigs.push(signature);
+  }
+  if (unsettled > 0) {
+    console.warn(
+      `Shade indexer: finality pass left ${unsettled} transactions confirmed: no status from the RPC and no slot or finalized block to check`
+    );
+  }
+
+  for (const { signature, slot } of missingSlots) {
+    await store.fillSlot(signature, slot);
+  }
+
+  let finalized = 0;
+  for (const batch of chunk(finalizedSigs, STATUS_BATCH_SIZE)) {
+    finalized += (await store.settleCommitments(batch, 'finalized')).length;
+  }
+
+  let orphaned = 0;
+  for (const batch of chunk(orphanedSigs, STATUS_BATCH_SIZE)) {
+    const updated = await store.settleCommitments(batch, 'orphaned');
+    for (const row of updated) {
+      console.warn(`Shade indexer: orphaned ${row.token} commitment at index ${row.commitment_index} (transaction failed or not in its finalized block)`);
+      resetTree(row.token);
+      invalidatePrefix(row.token, row.commitment_index);
+      notifyFeed(row.token);
+    }
+    orphaned += updated.length;
+  }
+
+  // Nullifiers follow their transaction: promoted with it, or deleted so the note reads unspent again
+  for (const batch of chunk(finalizedSigs, STATUS_BATCH_SIZE)) {
+    await store.finalizeNullifiers(batch);
+  }
+  for (const batch of chunk(orphanedSigs, STATUS_BATCH_SIZE)) {
+    await store.deleteNullifiers(batch);
+  }
+
+  return { finalizedSlot, finalized, orphaned };
+}
+
+/** Run runFinalityPass every FINALITY_INTERVAL_MS (0 disables). Returns a function that stops it. */
+export function startFinalityTracking(): () => void {
+  if (config.finalityIntervalMs <= 0) return () => {};
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    runFinalityPass()
+      .catch((e) => console.error('Shade indexer: finality pass error:', e))
+      .finally(() => {
+        running = false;
+      });
+  }, config.finalityIntervalMs);
+  return () => clearInterval(timer);
+}
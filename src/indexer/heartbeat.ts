@@ -0,0 +1,40 @@
+/**
+ * Indexer heartbeat (indexer_status table). The lease holder upserts its ingest modes and
+ * subscription state every HEARTBEAT_INTERVAL_MS so GET /indexer/status on any API replica can tell
+ * whether an indexer is running and whether its onLogs websocket is up.
+ */
+import { config } from '../config/env.js';
+import { getStore, IndexerHeartbeat, SubscriptionState } from '../db/index.js';
+import { holderId } from './lease.js';
+
+export const HEARTBEAT_INTERVAL_MS = 10_000;
+
+/**
+ * Write a heartbeat now and every HEARTBEAT_INTERVAL_MS. `probe` reports the current subscription
+ * state and when the last onLogs notification arrived. Returns a function that stops it.
+ */
+export function startHeartbeat(probe: () => { state: SubscriptionState; lastNotificationAt: Date | null }): () => void {
+  const beat = async (): Promise<void> => {
+    const { state, lastNotificationAt } = probe();
+    const row: IndexerHeartbeat = {
+      program_id: config.programId.toBase58(),
+      holder: holderId,
+      ingest_modes: config.ingestModes.join(','),
+      subscription_state: state,
+      last_notification_at: lastNotificationAt?.toISOString() ?? null,
+      heartbeat_at: new Date().toISOString(),
+    };
+    await getStore().saveHeartbeat(row);
+  };
+  const tick = () => {
+    beat().catch((e) => console.error('Shade indexer: heartbeat failed:', e));
+  };
+  tick();
+  const timer = setInterval(tick, HEARTBEAT_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+/** The last heartbeat for this program, or null if no indexer has ever run. */
+export function readHeartbeat(): Promise<IndexerHeartbeat | null> {
+  return getStore().loadHeartbeat(config.programId.toBase58());
+}
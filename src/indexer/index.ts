@@ -1,230 +1,123 @@
 /**
  * Shade program event indexer.
- * Uses connection.onLogs() to subscribe to program logs and writes CommitmentData to the commitments table.
- * Anchor events are logged as base64(discriminator[8] + borsh(fields)). We match the discriminator
- * so commitment and encrypted_output are read from the correct layout (SOL vs SPL).
+ * Backfills history from the stored cursor (./backfill.ts) and uses connection.onLogs() to
+ * subscribe to program logs and writes CommitmentData to the commitments table (./ingest.ts) and
+ * spent nullifiers to the nullifiers table (./nullifiers.ts).
+ * Gaps left by dropped notifications are repaired against on-chain nextIndex (./repair.ts), and
+ * rows are promoted to finalized or marked orphaned once their slot is rooted (./finality.ts).
+ * Only the holder of the indexer lease (./lease.ts) runs any of this; see startLeasedIndexer.
  */
-import { createHash } from 'crypto';
-import { PublicKey } from '@solana/web3.js';
 import { getConnection } from '../solana/connection.js';
 import { config } from '../config/env.js';
-import { getDb } from '../db/index.js';
+import { SubscriptionState } from '../db/index.js';
+import { runBackfill } from './backfill.js';
+import { startGapRepair } from './repair.js';
+import { startFinalityTracking } from './finality.js';
+import { indexLogs } from './ingest.js';
+import { indexNullifiersForSignature } from './nullifiers.js';
+import { runWithLease, StopFn } from './lease.js';
+import { startPolling } from './poll.js';
+import { startHeartbeat } from './heartbeat.js';
 
-/** Anchor event discriminator = first 8 bytes of sha256("event:EventName"). */
-function eventDiscriminator(eventName: string): Buffer {
-  return createHash('sha256').update(`event:${eventName}`).digest().subarray(0, 8);
-}
-
-const DISCRIMINATOR_COMMITMENT = eventDiscriminator('CommitmentData');
-const DISCRIMINATOR_SPL_COMMITMENT = eventDiscriminator('SplCommitmentData');
-
-/** Commitment bytes to decimal (big-endian, same as root/circuit/instruction). */
-function commitmentToDecimal(commitment: Uint8Array): string {
-  const buf = Buffer.from(commitment);
-  if (buf.length !== 32) return '0';
-  return BigInt('0x' + buf.toString('hex')).toString(10);
-}
-
-/** Layout after 8-byte discriminator: index(8) + commitment(32) + encLen(4) + encrypted_output. */
-function parseCommitmentData(data: Buffer): { index: number; commitment: string; encryptedOutput: string } | null {
-  const minLen = 8 + 8 + 32 + 4;
-  if (data.length < minLen) return null;
-  const index = Number(data.readBigUInt64LE(8));
-  const commitmentBytes = data.slice(16, 48);
-  const encLen = data.readUInt32LE(48);
-  if (52 + encLen > data.length) return null;
-  const encryptedOutput = data.slice(52, 52 + encLen);
-  return {
-    index,
-    commitment: commitmentToDecimal(commitmentBytes),
-    encryptedOutput: encryptedOutput.toString('hex'),
-  };
-}
-
-/** Layout after 8-byte discriminator: index(8) + mint(32) + commitment(32) + encLen(4) + encrypted_output. */
-function parseSplCommitmentData(
-  data: Buffer
-): { index: number; mintAddress: string; commitment: string; encryptedOutput: string } | null {
-  const minLen = 8 + 8 + 32 + 32 + 4;
-  if (data.length < minLen) return null;
-  const index = Number(data.readBigUInt64LE(8));
-  const mintBytes = data.slice(16, 48);
-  const commitmentBytes = data.slice(48, 80);
-  const encLen = data.readUInt32LE(80);
-  if (84 + encLen > data.length) return null;
-  const encryptedOutput = data.slice(84, 84 + encLen);
-  return {
-    index,
-    mintAddress: new PublicKey(mintBytes).toString(),
-    commitment: commitmentToDecimal(commitmentBytes),
-    encryptedOutput: encryptedOutput.toString('hex'),
-  };
-}
-
-/** Canonical mints per network. Always store these in DB so mint_address is never invalid. */
-const SOL_MINT = 'So11111111111111111111111111111111111111112';
-
-const MAINNET_MINT_TO_TOKEN: Record<string, string> = {
-  '11111111111111111111111111111112': 'sol',
-  [SOL_MINT]: 'sol',
-  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 'usdc',
-  'USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB': 'yesa',
-};
-const DEVNET_MINT_TO_TOKEN: Record<string, string> = {
-  '11111111111111111111111111111112': 'sol',
-  [SOL_MINT]: 'sol',
-  'DWvrXGqTYq1SW9ey857z1nXBxSxihwxdFyQfaRunsAXa': 'usdc',
-  'GykHjnHqwNsFmyY2wFT1drprpm1SZWR69CKPMUSFZBvH': 'yesa',
-};
-
-const MAINNET_TOKEN_TO_MINT: Record<string, string> = {
-  sol: SOL_MINT,
-  usdc: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-  yesa: 'USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB',
-};
-const DEVNET_TOKEN_TO_MINT: Record<string, string> = {
-  sol: SOL_MINT,
-  usdc: 'DWvrXGqTYq1SW9ey857z1nXBxSxihwxdFyQfaRunsAXa',
-  yesa: 'GykHjnHqwNsFmyY2wFT1drprpm1SZWR69CKPMUSFZBvH',
-};
-
-const MINT_TO_TOKEN = config.isDevnet ? DEVNET_MINT_TO_TOKEN : MAINNET_MINT_TO_TOKEN;
-const TOKEN_TO_MINT = config.isDevnet ? DEVNET_TOKEN_TO_MINT : MAINNET_TOKEN_TO_MINT;
-
-function processLogLines(
-  logLines: string[],
-  transactionSignature: string
-): Array<{
-  token: string;
-  commitment_index: number;
-  commitment: string;
-  encrypted_output: string;
-  mint_address: string | null;
-  transaction_signature: string;
-}> {
-  const rows: Array<{
-    token: string;
-    commitment_index: number;
-    commitment: string;
-    encrypted_output: string;
-    mint_address: string | null;
-    transaction_signature: string;
-  }> = [];
-
-  for (const log of logLines) {
-    if (!log.includes('Program data:')) continue;
-    const parts = log.split('Program data: ');
-    if (parts.length < 2) continue;
-    const dataEncoded = parts[1].trim();
-    let data: Buffer;
-    try {
-      data = Buffer.from(dataEncoded, 'base64');
-    } catch {
-      try {
-        data = Buffer.from(dataEncoded, 'hex');
-      } catch {
-        continue;
-      }
-    }
-    if (data.length < 8) continue;
-
-    const disc = data.subarray(0, 8);
-    let parsed: ReturnType<typeof parseCommitmentData> | ReturnType<typeof parseSplCommitmentData> = null;
-    if (disc.equals(DISCRIMINATOR_COMMITMENT)) {
-      parsed = parseCommitmentData(data);
-    } else if (disc.equals(DISCRIMINATOR_SPL_COMMITMENT)) {
-      parsed = parseSplCommitmentData(data);
-    }
-    if (!parsed) continue;
-
-    const token = 'mintAddress' in parsed ? (MINT_TO_TOKEN[parsed.mintAddress as string] ?? 'sol') : 'sol';
-    const mintAddress: string | null = TOKEN_TO_MINT[token] ?? SOL_MINT;
-    rows.push({
-      token,
-      commitment_index: parsed.index,
-      commitment: parsed.commitment,
-      encrypted_output: parsed.encryptedOutput,
-      mint_address: mintAddress,
-      transaction_signature: transactionSignature,
-    });
-  }
-
-  return rows;
-}
-
-async function indexLogs(logLines: string[], transactionSignature: string): Promise<void> {
-  const rows = processLogLines(logLines, transactionSignature);
-  if (rows.length === 0) return;
-
-  try {
-    const db = getDb();
-    await db.from('commitments').upsert(rows, { onConflict: 'commitment', ignoreDuplicates: true });
-  } catch (e) {
-    console.error('Indexer insert error:', e);
-  }
-}
-
-const CATCH_UP_LIMIT = 50;
 const RESUBSCRIBE_DELAY_MS = 5000;
+/** Slot notifications arrive every ~400ms while the websocket is up; this long without one means it is down */
+const SLOT_NOTIFICATION_STALE_MS = 30_000;
 
 /**
- * Run a one-time catch-up: fetch recent signatures and index any commitments from their logs.
- * Use after startup to pick up txs that landed while the server was down.
- */
-async function catchUpOnce(): Promise<void> {
-  const connection = getConnection();
-  try {
-    const sigs = await connection.getSignaturesForAddress(config.programId, { limit: CATCH_UP_LIMIT });
-    for (const sigInfo of sigs) {
-      const tx = await connection.getParsedTransaction(sigInfo.signature, {
-        maxSupportedTransactionVersion: 0,
-      });
-      if (tx?.meta?.logMessages?.length) {
-        await indexLogs(tx.meta.logMessages, sigInfo.signature);
-      }
-    }
-  } catch (e) {
-    console.error('Indexer catch-up error:', e);
-  }
-}
-
-/**
- * Start the indexer: optional catch-up, then subscribe to program logs via connection.onLogs().
- * Call this when the backend starts (e.g. after app.listen).
+ * Start the indexer: backfill from the stored cursor in the background and follow new transactions per INGEST_MODES
+ * (connection.onLogs() subscription and/or signature polling; webhooks arrive via POST /ingest/webhook). Returns a function that stops all of it. Use startLeasedIndexer unless this process already holds the lease.
  */
-export function startIndexer(): void {
+export function startIndexer(): StopFn {
   const connection = getConnection();
-
-  console.log('Shade indexer: starting (logs subscription)...');
-
-  catchUpOnce()
-    .then(() => {
-      console.log('Shade indexer: catch-up done, subscribing to program logs.');
-    })
-    .catch((e) => {
-      console.error('Shade indexer: catch-up failed:', e);
-    });
+  const abort = new AbortController();
+  let subscriptionId: number | null = null;
+  let slotSubscriptionId: number | null = null;
+  let lastSlotNotificationAt: number | null = null;
+  let resubscribeTimer: NodeJS.Timeout | null = null;
+  let lastNotificationAt: Date | null = null;
+
+  console.log(`Shade indexer: starting (ingest: ${config.ingestModes.join(', ')})...`);
+
+  runBackfill(abort.signal).catch((e) => {
+    if (abort.signal.aborted) return;
+    console.error('Shade indexer: backfill failed (resumes from cursor on next start):', e);
+  });
+  const stopGapRepair = startGapRepair();
+  const stopFinality = startFinalityTracking();
 
   const subscribe = (): void => {
+    resubscribeTimer = null;
+    if (abort.signal.aborted) return;
     try {
-      connection.onLogs(
+      subscriptionId = connection.onLogs(
         config.programId,
-        (logs, _ctx) => {
+        (logs, ctx) => {
+          lastNotificationAt = new Date();
           const signature = (logs as { signature?: string; logs?: string[] }).signature;
-          if (logs.logs?.length && signature) {
-            indexLogs(logs.logs, signature).catch((e) => {
-              console.error('Indexer callback error:', e);
-            });
+          if (logs.logs?.length && signature && !logs.err) {
+            const logLines = logs.logs;
+            indexLogs(logLines, signature, ctx.slot, 'confirmed')
+              .then(() => {
+                // Only transact instructions emit commitment events (and spend nullifiers)
+                if (logLines.some((l) => l.includes('Program data:'))) return indexNullifiersForSignature(signature);
+              })
+              .catch((e) => {
+                console.error('Indexer callback error:', e);
+              });
           }
         },
         'confirmed'
       );
+      // Same websocket as onLogs: a liveness signal even while the program is quiet
+      slotSubscriptionId = connection.onSlotChange(() => {
+        lastSlotNotificationAt = Date.now();
+      });
       console.log('Shade indexer: subscribed to program logs (confirmed).');
     } catch (e) {
       console.error('Shade indexer: subscribe error, resubscribing in', RESUBSCRIBE_DELAY_MS, 'ms:', e);
-      setTimeout(subscribe, RESUBSCRIBE_DELAY_MS);
+      resubscribeTimer = setTimeout(subscribe, RESUBSCRIBE_DELAY_MS);
+    }
+  };
+
+  if (config.ingestModes.includes('logs')) subscribe();
+  const stopPolling = config.ingestModes.includes('polling') ? startPolling() : () => {};
+
+  const subscriptionState = (): SubscriptionState => {
+    if (!config.ingestModes.includes('logs')) return 'disabled';
+    if (subscriptionId === null) return 'reconnecting';
+    // web3.js reconnects and resubscribes on its own; notifications resume once it has
+    const fresh = lastSlotNotificationAt !== null && Date.now() - lastSlotNotificationAt < SLOT_NOTIFICATION_STALE_MS;
+    return fresh ? 'connected' : 'reconnecting';
+  };
+  const stopHeartbeat = startHeartbeat(() => ({ state: subscriptionState(), lastNotificationAt }));
+
+  return () => {
+    abort.abort();
+    stopGapRepair();
+    stopFinality();
+    stopPolling();
+    stopHeartbeat();
+    if (resubscribeTimer) clearTimeout(resubscribeTimer);
+    if (subscriptionId !== null) {
+      connection.removeOnLogsListener(subscriptionId).catch((e) => {
+        console.error('Shade indexer: unsubscribe error:', e);
+      });
+    }
+    if (slotSubscriptionId !== null) {
+      connection.removeSlotChangeListener(slotSubscriptionId).catch((e) => {
+        console.error('Shade indexer: unsubscribe error:', e);
+      });
     }
+    console.log('Shade indexer: stopped.');
   };
+}
 
-  subscribe();
+/**
+ * Run the indexer whenever this process holds the single-writer lease, standing by otherwise.
+ * Returns a function that stops it and releases the lease, so a standby takes over immediately;
+ * the entrypoint calls it from its own shutdown handling.
+ */
+export function startLeasedIndexer(): () => Promise<void> {
+  const worker = runWithLease(startIndexer);
+  return () => worker.shutdown();
 }
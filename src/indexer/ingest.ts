@@ -0,0 +1,256 @@
+/**
+ * Program log ingestion shared by the live subscription and the backfill.
+ * Anchor events are logged as base64(discriminator[8] + borsh(fields)). Events are decoded with the
+ * loaded Shade IDL(s) (../solana/idl.ts), or with the built-in SOL/SPL layouts when none is loaded.
+ * A commitment event that does not fit its layout throws IdlDecodeError rather than being skipped,
+ * so the backfill cursor stops there instead of silently losing rows.
+ */
+import { createHash } from 'crypto';
+import { PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { config } from '../config/env.js';
+import { getStore, CommitmentInsert, CommitmentStatus } from '../db/index.js';
+import { getMintFromToken, getTokenFromMint, SOL_MINT_ADDRESS } from '../lib/mints.js';
+import { appendCommitments, resetTree } from '../merkle/index.js';
+import { notifyFeed } from '../stream/feed.js';
+import { decodeEvent, field, hasIdl, IdlDecodeError } from '../solana/idl.js';
+import { extractNullifiers, upsertNullifiers } from './nullifiers.js';
+
+/** Anchor event discriminator = first 8 bytes of sha256("event:EventName"). */
+function eventDiscriminator(eventName: string): Buffer {
+  return createHash('sha256').update(`event:${eventName}`).digest().subarray(0, 8);
+}
+
+const DISCRIMINATOR_COMMITMENT = eventDiscriminator('CommitmentData');
+const DISCRIMINATOR_SPL_COMMITMENT = eventDiscriminator('SplCommitmentData');
+
+/** Commitment bytes to decimal (big-endian, same as root/circuit/instruction). */
+function commitmentToDecimal(commitment: Uint8Array): string {
+  const buf = Buffer.from(commitment);
+  if (buf.length !== 32) return '0';
+  return BigInt('0x' + buf.toString('hex')).toString(10);
+}
+
+interface ParsedCommitment {
+  index: number;
+  mintAddress?: string;
+  commitment: string;
+  encryptedOutput: string;
+}
+
+/** Built-in layouts must account for every byte; anything else means the program's events changed. */
+function layoutError(eventName: string, data: Buffer, expected: string): IdlDecodeError {
+  return new IdlDecodeError('layout', `event ${eventName}`, `${data.length} bytes, built-in layout expects ${expected}`);
+}
+
+/** Layout after 8-byte discriminator: index(8) + commitment(32) + encLen(4) + encrypted_output. */
+function parseCommitmentData(data: Buffer): ParsedCommitment {
+  if (data.length < 52) throw layoutError('CommitmentData', data, 'at least 52');
+  const index = Number(data.readBigUInt64LE(8));
+  const commitmentBytes = data.slice(16, 48);
+  const encLen = data.readUInt32LE(48);
+  if (data.length !== 52 + encLen) throw layoutError('CommitmentData', data, `${52 + encLen}`);
+  const encryptedOutput = data.slice(52, 52 + encLen);
+  return {
+    index,
+    commitment: commitmentToDecimal(commitmentBytes),
+    encryptedOutput: encryptedOutput.toString('hex'),
+  };
+}
+
+/** Layout after 8-byte discriminator: index(8) + mint(32) + commitment(32) + encLen(4) + encrypted_output. */
+function parseSplCommitmentData(data: Buffer): ParsedCommitment {
+  if (data.length < 84) throw layoutError('SplCommitmentData', data, 'at least 84');
+  const index = Number(data.readBigUInt64LE(8));
+  const mintBytes = data.slice(16, 48);
+  const commitmentBytes = data.slice(48, 80);
+  const encLen = data.readUInt32LE(80);
+  if (data.length !== 84 + encLen) throw layoutError('SplCommitmentData', data, `${84 + encLen}`);
+  const encryptedOutput = data.slice(84, 84 + encLen);
+  return {
+    index,
+    mintAddress: new PublicKey(mintBytes).toString(),
+    commitment: commitmentToDecimal(commitmentBytes),
+    encryptedOutput: encryptedOutput.toString('hex'),
+  };
+}
+
+/** Commitment event via the loaded IDL(s); null for events other than (Spl)CommitmentData. */
+function parseWithIdl(data: Buffer): ParsedCommitment | null {
+  const event = decodeEvent(data);
+  if (!event || (event.name !== 'CommitmentData' && event.name !== 'SplCommitmentData')) return null;
+  const parsed: ParsedCommitment = {
+    index: Number(field<{ toString(): string }>(event.data, 'index').toString()),
+    commitment: commitmentToDecimal(Uint8Array.from(field<number[]>(event.data, 'commitment'))),
+    encryptedOutput: Buffer.from(field<Uint8Array>(event.data, 'encrypted_output')).toString('hex'),
+  };
+  if (event.name === 'SplCommitmentData') {
+    parsed.mintAddress = field<PublicKey>(event.data, 'mint_address').toBase58();
+  }
+  return parsed;
+}
+
+/**
+ * Decode a "Program data:" payload. Returns null for events we do not track; throws
+ * IdlDecodeError when a commitment event does not fit the expected layout.
+ */
+function parseCommitmentEvent(data: Buffer): ParsedCommitment | null {
+  if (hasIdl()) return parseWithIdl(data);
+  const disc = data.subarray(0, 8);
+  if (disc.equals(DISCRIMINATOR_COMMITMENT)) return parseCommitmentData(data);
+  if (disc.equals(DISCRIMINATOR_SPL_COMMITMENT)) return parseSplCommitmentData(data);
+  return null;
+}
+
+/** mint_address stored on SOL rows (wrapped SOL), whichever mint the event carried. */
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/**
+ * Mints the indexer files a token under where they differ from lib/mints.ts. Devnet yesa has always
+ * been indexed from this mint; keeping it keeps its stored rows and tree.
+ */
+const INDEXED_MINT_OVERRIDES: Record<string, string> = config.isDevnet
+  ? { yesa: 'GykHjnHqwNsFmyY2wFT1drprpm1SZWR69CKPMUSFZBvH' }
+  : {};
+
+/** mint_address stored on a token's rows */
+function indexedMint(token: string): string {
+  if (token === 'sol') return SOL_MINT;
+  return INDEXED_MINT_OVERRIDES[token] ?? getMintFromToken(token)!.toBase58();
+}
+
+/**
+ * Token for an event's mint, or null when the mint is not a supported pool: such events are
+ * skipped rather than filed under another token's tree.
+ */
+function tokenForMint(mintAddress: string | undefined): string | null {
+  if (!mintAddress || mintAddress === SOL_MINT || mintAddress === SOL_MINT_ADDRESS.toBase58()) return 'sol';
+  const overridden = Object.keys(INDEXED_MINT_OVERRIDES).find((token) => INDEXED_MINT_OVERRIDES[token] === mintAddress);
+  if (overridden) return overridden;
+  const token = getTokenFromMint(new PublicKey(mintAddress));
+  return token && !INDEXED_MINT_OVERRIDES[token] ? token : null;
+}
+
+const INVOKE_LOG = /^Program (\S+) invoke \[\d+\]$/;
+const EXIT_LOG = /^Program \S+ (success|failed)/;
+const DATA_LOG_PREFIX = 'Program data: ';
+
+/**
+ * `Program data:` payloads logged by the Shade program itself. The invoke / success / failed lines
+ * give the program running at each line, so data logged by any other program (one Shade calls, one
+ * that calls Shade, or one alongside it) is never read as a Shade event.
+ */
+function shadeProgramData(logLines: string[]): string[] {
+  const programId = config.programId.toBase58();
+  const frames: string[] = [];
+  const data: string[] = [];
+  for (const log of logLines) {
+    const invoke = INVOKE_LOG.exec(log);
+    if (invoke) {
+      frames.push(invoke[1]);
+    } else if (EXIT_LOG.test(log)) {
+      frames.pop();
+    } else if (log.startsWith(DATA_LOG_PREFIX) && frames[frames.length - 1] === programId) {
+      data.push(log.slice(DATA_LOG_PREFIX.length).trim());
+    }
+  }
+  return data;
+}
+
+/**
+ * Commitment rows from one transaction's logs. `status` is what the source observed: 'confirmed'
+ * for the live subscription, 'finalized' when the signature was already rooted (backfill).
+ * Throws IdlDecodeError on a discriminator/layout mismatch.
+ */
+export function processLogLines(
+  logLines: string[],
+  transactionSignature: string,
+  slot: number | null = null,
+  status: CommitmentStatus = 'confirmed'
+): CommitmentInsert[] {
+  const rows: CommitmentInsert[] = [];
+
+  for (const dataEncoded of shadeProgramData(logLines)) {
+    let data: Buffer;
+    try {
+      data = Buffer.from(dataEncoded, 'base64');
+    } catch {
+      try {
+        data = Buffer.from(dataEncoded, 'hex');
+      } catch {
+        continue;
+      }
+    }
+    if (data.length < 8) continue;
+
+    const parsed = parseCommitmentEvent(data);
+    if (!parsed) continue;
+
+    const token = tokenForMint(parsed.mintAddress);
+    if (!token) {
+      console.warn(`Ingest: skipping commitment ${parsed.index} in ${transactionSignature}: unsupported mint ${parsed.mintAddress}`);
+      continue;
+    }
+    const mintAddress = indexedMint(token);
+    rows.push({
+      token,
+      commitment_index: parsed.index,
+      commitment: parsed.commitment,
+      encrypted_output: parsed.encryptedOutput,
+      mint_address: mintAddress,
+      transaction_signature: transactionSignature,
+      slot,
+      status,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Upsert parsed rows (existing commitments are left untouched). A commitment whose earlier row was
+ * orphaned (its fork dropped) and that lands again in another transaction takes over that row.
+ * Returns how many rows were new or revived.
+ */
+export async function upsertCommitments(rows: CommitmentInsert[]): Promise<number> {
+  if (rows.length === 0) return 0;
+  const store = getStore();
+  const inserted = new Set(await store.insertCommitments(rows));
+  let revived = 0;
+  for (const row of rows) {
+    if (inserted.has(row.commitment)) continue;
+    if (await store.reviveCommitment(row)) {
+      revived++;
+      resetTree(row.token);
+    }
+  }
+  appendCommitments(rows);
+  if (inserted.size + revived > 0) {
+    for (const token of new Set(rows.map((r) => r.token))) notifyFeed(token);
+  }
+  return inserted.size + revived;
+}
+
+/** Parse and upsert commitments from one transaction's logs. Throws on DB errors so callers can retry. */
+export async function indexLogs(
+  logLines: string[],
+  transactionSignature: string,
+  slot: number | null = null,
+  status: CommitmentStatus = 'confirmed'
+): Promise<number> {
+  return upsertCommitments(processLogLines(logLines, transactionSignature, slot, status));
+}
+
+/**
+ * Index a fetched transaction: commitments from its logs and nullifiers from its instructions.
+ * Returns the number of new commitment rows.
+ */
+export async function indexTransaction(
+  tx: VersionedTransactionResponse,
+  signature: string,
+  status: CommitmentStatus = 'confirmed'
+): Promise<number> {
+  if (tx.meta?.err) return 0;
+  const inserted = tx.meta?.logMessages?.length ? await indexLogs(tx.meta.logMessages, signature, tx.slot, status) : 0;
+  await upsertNullifiers(extractNullifiers(tx, signature, status));
+  return inserted;
+}
@@ -0,0 +1,109 @@
+/**
+ * Single-writer lease (indexer_leases table) so only one process indexes at a time.
+ *
+ * Every process that wants to index polls acquireLease every INDEXER_LEASE_TTL_MS / 3.
+ * The holder's poll renews the lease; a standby's poll takes it over once the holder stops renewing
+ * (crash, network partition) and the lease expires. A holder that cannot renew before its lease
+ * would expire, or finds it taken, stops its work so two writers never overlap for long.
+ */
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { config } from '../config/env.js';
+import { getStore } from '../db/index.js';
+
+const LEASE_NAME = 'indexer';
+
+/** Stops whatever was started under the lease. */
+export type StopFn = () => void;
+
+export interface LeasedWorker {
+  /** Stop the work (if running), stop polling and release the lease. */
+  shutdown(): Promise<void>;
+}
+
+/** Identifies this process in indexer_leases and indexer_status */
+export const holderId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/** Until when this process's leased work may run; 0 while it does not hold the lease */
+let runningUntil = 0;
+
+/** Whether this process holds the indexer lease and runs the indexer under it */
+export function holdsLease(): boolean {
+  return Date.now() < runningUntil;
+}
+
+function acquireLease(): Promise<boolean> {
+  return getStore().acquireLease(LEASE_NAME, holderId, config.indexerLeaseTtlMs);
+}
+
+async function releaseLease(): Promise<void> {
+  try {
+    await getStore().releaseLease(LEASE_NAME, holderId);
+  } catch (e) {
+    console.error('Shade indexer: lease release failed:', e instanceof Error ? e.message : e);
+  }
+}
+
+/** Run `start` while this process holds the indexer lease; stop it whenever the lease is lost. */
+export function runWithLease(start: () => StopFn): LeasedWorker {
+  const pollMs = Math.max(1000, Math.floor(config.indexerLeaseTtlMs / 3));
+  let stop: StopFn | null = null;
+  /** Local deadline, measured from before the renew request so it never outlives the DB's expiry */
+  let heldUntil = 0;
+  let polling = false;
+  let closed = false;
+
+  const lose = (reason: string): void => {
+    if (!stop) return;
+    console.warn(`Shade indexer: lease lost (${reason}), stopping`);
+    runningUntil = 0;
+    stop();
+    stop = null;
+  };
+
+  const poll = async (): Promise<void> => {
+    if (polling) return;
+    polling = true;
+    const requestedAt = Date.now();
+    try {
+      const held = await acquireLease();
+      if (closed) {
+        if (held) await releaseLease();
+        return;
+      }
+      if (held) {
+        heldUntil = requestedAt + config.indexerLeaseTtlMs;
+        if (!stop) {
+          console.log(`Shade indexer: lease acquired by ${holderId}`);
+          stop = start();
+        }
+        runningUntil = heldUntil;
+      } else {
+        lose('held by another process');
+      }
+    } catch (e) {
+      console.error('Shade indexer: lease renewal error:', e);
+      // Keep running on a transient error only while the lease we last renewed is still valid
+      if (Date.now() + pollMs >= heldUntil) lose('could not renew before expiry');
+    } finally {
+      polling = false;
+    }
+  };
+
+  console.log(`Shade indexer: waiting for lease as ${holderId}`);
+  void poll();
+  const timer = setInterval(() => void poll(), pollMs);
+
+  return {
+    async shutdown(): Promise<void> {
+      closed = true;
+      clearInterval(timer);
+      runningUntil = 0;
+      if (stop) {
+        stop();
+        stop = null;
+        await releaseLease();
+      }
+    },
+  };
+}
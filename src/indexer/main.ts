@@ -0,0 +1,30 @@
+/**
+ * Standalone indexer process: `npm run index` (dev) / `npm run start:indexer` (built).
+ * Run one or more of these next to API replicas started with INDEXER_ENABLED=false; the lease makes
+ * exactly one of them write and the others take over when it dies.
+ */
+import { validateConfig } from '../config/env.js';
+import { ensureSchema, getStore } from '../db/index.js';
+import { loadIdls } from '../solana/idl.js';
+import { startLeasedIndexer } from './index.js';
+
+validateConfig();
+
+async function main(): Promise<void> {
+  await ensureSchema();
+  await loadIdls();
+  const stop = startLeasedIndexer();
+  const shutdown = (): void => {
+    stop()
+      .then(() => getStore().close())
+      .catch((e) => console.error('Shade indexer: shutdown error:', e))
+      .finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((e) => {
+  console.error('Shade indexer failed to start:', e);
+  process.exit(1);
+});
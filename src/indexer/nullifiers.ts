@@ -0,0 +1,81 @@
+/**
+ * Nullifier indexing: every Shade transact instruction spends two input nullifiers, recorded with
+ * the nullifier0/nullifier1 PDAs it creates. Logs carry no nullifier events, so rows come from the
+ * transaction itself (instruction data + account keys).
+ */
+import { PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { config } from '../config/env.js';
+import { getStore, CommitmentStatus, NullifierInsert } from '../db/index.js';
+import { getMintFromToken, SUPPORTED_TOKENS } from '../lib/mints.js';
+import { getTreeAccountPDA } from '../solana/contract.js';
+import { sleep } from '../lib/throttle.js';
+import {
+  bytes32ToDecimal,
+  readInputNullifiers,
+  TRANSACT_ACCOUNT_NULLIFIER0,
+  TRANSACT_ACCOUNT_NULLIFIER1,
+  TRANSACT_ACCOUNT_TREE,
+} from '../solana/instructions.js';
+import { fetchTransaction } from './rpc.js';
+
+/** The live subscription sees logs before getTransaction can serve the tx; retry briefly. */
+const LIVE_FETCH_ATTEMPTS = 3;
+const LIVE_FETCH_DELAY_MS = 2000;
+
+let tokenByTree: Map<string, string> | null = null;
+
+function tokenForTree(tree: PublicKey): string | null {
+  if (!tokenByTree) {
+    tokenByTree = new Map(SUPPORTED_TOKENS.map((t) => [getTreeAccountPDA(getMintFromToken(t)).toBase58(), t]));
+  }
+  return tokenByTree.get(tree.toBase58()) ?? null;
+}
+
+/** Nullifier rows for the Shade transact instructions in a successful transaction. */
+export function extractNullifiers(
+  tx: VersionedTransactionResponse,
+  signature: string,
+  status: CommitmentStatus = 'confirmed'
+): NullifierInsert[] {
+  if (tx.meta?.err) return [];
+  const message = tx.transaction.message;
+  const accountKeys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+  const rows: NullifierInsert[] = [];
+
+  for (const ix of message.compiledInstructions) {
+    if (!accountKeys.get(ix.programIdIndex)?.equals(config.programId)) continue;
+    const nullifiers = readInputNullifiers(ix.data);
+    const accountAt = (i: number) => accountKeys.get(ix.accountKeyIndexes[i]);
+    const tree = accountAt(TRANSACT_ACCOUNT_TREE);
+    const pdas = [accountAt(TRANSACT_ACCOUNT_NULLIFIER0), accountAt(TRANSACT_ACCOUNT_NULLIFIER1)];
+    if (!nullifiers || !tree || pdas.some((p) => !p)) continue;
+    const token = tokenForTree(tree);
+    pdas.forEach((pda, i) => {
+      rows.push({
+        nullifier_pda: pda!.toBase58(),
+        nullifier: bytes32ToDecimal(nullifiers[i]),
+        token,
+        transaction_signature: signature,
+        slot: tx.slot,
+        status,
+      });
+    });
+  }
+  return rows;
+}
+
+/** Upsert nullifier rows; a PDA is created once, so existing rows are kept. Returns rows inserted. */
+export async function upsertNullifiers(rows: NullifierInsert[]): Promise<number> {
+  return getStore().insertNullifiers(rows);
+}
+
+/** Live path: onLogs only delivers logs, so fetch the transaction to read its nullifiers. */
+export async function indexNullifiersForSignature(signature: string): Promise<number> {
+  for (let attempt = 0; attempt < LIVE_FETCH_ATTEMPTS; attempt++) {
+    const tx = await fetchTransaction(signature);
+    if (tx) return upsertNullifiers(extractNullifiers(tx, signature));
+    await sleep(LIVE_FETCH_DELAY_MS);
+  }
+  console.warn(`Shade indexer: transaction ${signature} not available; nullifiers left to backfill`);
+  return 0;
+}
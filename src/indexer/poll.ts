@@ -0,0 +1,68 @@
+/**
+ * Polling ingestion: every INGEST_POLL_INTERVAL_MS, fetch program signatures newer than the last
+ * one seen and index those transactions oldest-first. Starts from the tip at startup (the backfill
+ * covers older history; gap repair catches anything in between). Slower than onLogs or webhooks but
+ * needs nothing beyond plain HTTP RPC.
+ */
+import { ConfirmedSignatureInfo } from '@solana/web3.js';
+import { config } from '../config/env.js';
+import { indexTransaction } from './ingest.js';
+import { fetchProgramSignatures, fetchTransaction } from './rpc.js';
+
+const SIGNATURE_PAGE_SIZE = 1000;
+
+/** Signatures newer than `until`, oldest first. */
+async function fetchNewSignatures(until: string): Promise<ConfirmedSignatureInfo[]> {
+  const newestFirst: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+  for (;;) {
+    const page = await fetchProgramSignatures({ before, until, limit: SIGNATURE_PAGE_SIZE });
+    newestFirst.push(...page);
+    if (page.length < SIGNATURE_PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
+  }
+  return newestFirst.reverse();
+}
+
+/** Poll for new program transactions until the returned function is called. */
+export function startPolling(): () => void {
+  let newest: string | null = null;
+  let running = false;
+  let stopped = false;
+
+  const poll = async (): Promise<void> => {
+    if (newest === null) {
+      const [tip] = await fetchProgramSignatures({ limit: 1 });
+      newest = tip?.signature ?? null;
+      return;
+    }
+    const sigs = await fetchNewSignatures(newest);
+    for (const sigInfo of sigs) {
+      if (stopped) return;
+      if (!sigInfo.err) {
+        const tx = await fetchTransaction(sigInfo.signature);
+        // Not served yet: stop here and retry from this signature on the next poll
+        if (!tx) return;
+        const status = sigInfo.confirmationStatus === 'finalized' ? 'finalized' : 'confirmed';
+        await indexTransaction(tx, sigInfo.signature, status);
+      }
+      newest = sigInfo.signature;
+    }
+  };
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    poll()
+      .catch((e) => console.error('Shade indexer: poll error:', e))
+      .finally(() => {
+        running = false;
+      });
+  }, config.ingestPollIntervalMs);
+  console.log(`Shade indexer: polling program signatures every ${config.ingestPollIntervalMs} ms.`);
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
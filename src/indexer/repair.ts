@@ -0,0 +1,198 @@
+/**
+ * Gap repair driven by the on-chain nextIndex.
+ *
+ * Each pass compares, per token, the length of the gap-free commitment_index prefix in the DB with
+ * the tree's nextIndex. A gap seen on two consecutive passes (so not just the live subscription
+ * lagging) is repaired by scanning program signatures between the transactions on either side of
+ * it, re-parsing their logs and upserting the rows. Every repair is recorded in indexer_repairs.
+ */
+import { config } from '../config/env.js';
+import { getStore, visibleStatuses } from '../db/index.js';
+import { getMintFromToken, SUPPORTED_TOKENS } from '../lib/mints.js';
+import { fetchMerkleTreeState } from '../solana/contract.js';
+import { processLogLines, upsertCommitments } from './ingest.js';
+import { extractNullifiers, upsertNullifiers } from './nullifiers.js';
+import { fetchProgramSignatures, fetchTransaction } from './rpc.js';
+
+const PREFIX_PAGE_SIZE = 1000;
+const SIGNATURE_PAGE_SIZE = 1000;
+/** Upper bound on signatures scanned for one gap, so a bad anchor cannot walk the whole history. */
+const MAX_SCAN_SIGNATURES = 10_000;
+
+interface Gap {
+  token: string;
+  /** First missing index */
+  fromIndex: number;
+  /** First index present after the gap, or the on-chain nextIndex when the gap runs to the tip */
+  toIndex: number;
+  /** Transaction of the row just below the gap (scan lower bound), if any */
+  untilSignature: string | null;
+  /** Transaction of the row just above the gap (scan upper bound), if any */
+  beforeSignature: string | null;
+}
+
+export interface RepairResult {
+  token: string;
+  fromIndex: number;
+  toIndex: number;
+  signaturesScanned: number;
+  transactionsFetched: number;
+  rowsInserted: number;
+  stillMissing: number;
+}
+
+/** Verified contiguous prefix per token; only grows, so each pass reads just the new rows. */
+const contiguousPrefix = new Map<string, { size: number; lastSignature: string | null }>();
+/** Gap start seen on the previous pass, per token */
+const pendingGaps = new Map<string, number>();
+
+/** Forget the verified prefix of a token whose rows at or above fromIndex changed (e.g. orphaned). */
+export function invalidatePrefix(token: string, fromIndex: number): void {
+  const prefix = contiguousPrefix.get(token);
+  if (prefix && prefix.size > fromIndex) contiguousPrefix.delete(token);
+}
+
+/** Extend the known contiguous prefix and return the first gap below nextIndex, if any. */
+async function findFirstGap(token: string, nextIndex: number): Promise<Gap | null> {
+  const store = getStore();
+  const prefix = contiguousPrefix.get(token) ?? { size: 0, lastSignature: null };
+  contiguousPrefix.set(token, prefix);
+
+  while (prefix.size < nextIndex) {
+    const rows = await store.listCommitments({
+      token,
+      statuses: visibleStatuses('confirmed'),
+      fromIndex: prefix.size,
+      limit: PREFIX_PAGE_SIZE,
+    });
+    for (const row of rows) {
+      const index = row.commitment_index;
+      if (index < prefix.size) continue;
+      if (index > prefix.size) {
+        return {
+          token,
+          fromIndex: prefix.size,
+          toIndex: Math.min(index, nextIndex),
+          untilSignature: prefix.lastSignature,
+          beforeSignature: row.transaction_signature ?? null,
+        };
+      }
+      prefix.size++;
+      prefix.lastSignature = row.transaction_signature ?? prefix.lastSignature;
+    }
+    if (rows.length < PREFIX_PAGE_SIZE) break;
+  }
+
+  if (prefix.size >= nextIndex) return null;
+  return {
+    token,
+    fromIndex: prefix.size,
+    toIndex: nextIndex,
+    untilSignature: prefix.lastSignature,
+    beforeSignature: null,
+  };
+}
+
+async function recordRepair(result: RepairResult): Promise<void> {
+  try {
+    await getStore().recordRepair({
+      token: result.token,
+      from_index: result.fromIndex,
+      to_index: result.toIndex,
+      signatures_scanned: result.signaturesScanned,
+      transactions_fetched: result.transactionsFetched,
+      rows_inserted: result.rowsInserted,
+      still_missing: result.stillMissing,
+    });
+  } catch (e) {
+    console.error('Gap repair: failed to record repair:', e instanceof Error ? e.message : e);
+  }
+}
+
+async function repairGap(gap: Gap): Promise<RepairResult> {
+  const result: RepairResult = {
+    token: gap.token,
+    fromIndex: gap.fromIndex,
+    toIndex: gap.toIndex,
+    signaturesScanned: 0,
+    transactionsFetched: 0,
+    rowsInserted: 0,
+    stillMissing: gap.toIndex - gap.fromIndex,
+  };
+  const found = new Set<number>();
+  let before = gap.beforeSignature ?? undefined;
+
+  while (result.signaturesScanned < MAX_SCAN_SIGNATURES && found.size < gap.toIndex - gap.fromIndex) {
+    const page = await fetchProgramSignatures({
+      before,
+      until: gap.untilSignature ?? undefined,
+      limit: SIGNATURE_PAGE_SIZE,
+    });
+    result.signaturesScanned += page.length;
+    for (const sigInfo of page) {
+      if (sigInfo.err) continue;
+      const tx = await fetchTransaction(sigInfo.signature);
+      result.transactionsFetched++;
+      if (!tx?.meta?.logMessages?.length) continue;
+      const status = sigInfo.confirmationStatus === 'finalized' ? 'finalized' : 'confirmed';
+      const rows = processLogLines(tx.meta.logMessages, sigInfo.signature, tx.slot, status).filter(
+        (r) => r.token === gap.token
+      );
+      result.rowsInserted += await upsertCommitments(rows);
+      await upsertNullifiers(extractNullifiers(tx, sigInfo.signature, status));
+      for (const row of rows) {
+        if (row.commitment_index >= gap.fromIndex && row.commitment_index < gap.toIndex) found.add(row.commitment_index);
+      }
+    }
+    if (page.length < SIGNATURE_PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
+  }
+
+  result.stillMissing = gap.toIndex - gap.fromIndex - found.size;
+  return result;
+}
+
+/** One pass over all tokens with an initialized tree. Returns the repairs performed. */
+export async function runGapRepairPass(): Promise<RepairResult[]> {
+  const results: RepairResult[] = [];
+  for (const token of SUPPORTED_TOKENS) {
+    const state = await fetchMerkleTreeState(getMintFromToken(token));
+    if (state === null) continue;
+    const gap = await findFirstGap(token, state.nextIndex);
+    if (!gap) {
+      pendingGaps.delete(token);
+      continue;
+    }
+    // First sighting may just be the live subscription a few slots behind; repair if it persists
+    if (pendingGaps.get(token) !== gap.fromIndex) {
+      pendingGaps.set(token, gap.fromIndex);
+      continue;
+    }
+    pendingGaps.delete(token);
+    console.warn(`Shade indexer: gap in ${token} commitments at [${gap.fromIndex}, ${gap.toIndex}), repairing`);
+    const result = await repairGap(gap);
+    await recordRepair(result);
+    console.log(
+      `Shade indexer: repaired ${token} [${result.fromIndex}, ${result.toIndex}): ` +
+        `${result.rowsInserted} rows inserted, ${result.stillMissing} still missing`
+    );
+    results.push(result);
+  }
+  return results;
+}
+
+/** Run runGapRepairPass every GAP_REPAIR_INTERVAL_MS (0 disables). Returns a function that stops it. */
+export function startGapRepair(): () => void {
+  if (config.gapRepairIntervalMs <= 0) return () => {};
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    runGapRepairPass()
+      .catch((e) => console.error('Shade indexer: gap repair error:', e))
+      .finally(() => {
+        running = false;
+      });
+  }, config.gapRepairIntervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,25 @@
+/**
+ * Paced RPC access for the indexer. Backfill and gap repair share one throttle so together they
+ * stay under INDEXER_RPC_RPS.
+ */
+import { ConfirmedSignatureInfo, SignaturesForAddressOptions, VersionedTransactionResponse } from '@solana/web3.js';
+import { getConnection } from '../solana/connection.js';
+import { config } from '../config/env.js';
+import { createThrottle, withRetry } from '../lib/throttle.js';
+
+export const throttleRpc = createThrottle(config.indexerRpcRps);
+
+export async function fetchProgramSignatures(options: SignaturesForAddressOptions): Promise<ConfirmedSignatureInfo[]> {
+  const connection = getConnection();
+  await throttleRpc();
+  return withRetry(() => connection.getSignaturesForAddress(config.programId, options));
+}
+
+/** A confirmed transaction, or null if the RPC does not have it (yet, or any more). */
+export async function fetchTransaction(signature: string): Promise<VersionedTransactionResponse | null> {
+  const connection = getConnection();
+  await throttleRpc();
+  return withRetry(() =>
+    connection.getTransaction(signature, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' })
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Indexer status as seen from this API process (GET /indexer/status, /health).
+ *
+ * Per token, the gap-free prefix is this node's in-memory tree (../merkle) after a sync from the DB,
+ * since that is what its proofs are built from, compared with the on-chain nextIndex. lagSeconds is
+ * how long this node has continuously seen the tree behind the chain. Subscription state comes from
+ * the lease holder's heartbeat (./heartbeat.ts), which may be another process.
+ */
+import { config } from '../config/env.js';
+import { getStore } from '../db/index.js';
+import { createCache } from '../lib/cache.js';
+import { getMintFromToken, SUPPORTED_TOKENS } from '../lib/mints.js';
+import { syncTree } from '../merkle/index.js';
+import { fetchMerkleTreeState } from '../solana/contract.js';
+import { HEARTBEAT_INTERVAL_MS, readHeartbeat } from './heartbeat.js';
+
+/** Health checks poll often; status needs one RPC call and a DB read per token. */
+const STATUS_CACHE_TTL_MS = 5000;
+/** A heartbeat older than this means no indexer is running */
+const HEARTBEAT_STALE_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+export interface TokenIndexerStatus {
+  token: string;
+  /** false when the token's tree account does not exist on chain */
+  initialized: boolean;
+  lastIndexedSlot: number | null;
+  lastIndexedSignature: string | null;
+  /** When the most recently indexed commitment row was written */
+  lastEventAt: string | null;
+  /** Highest commitment_index with no gap below it, or -1 when none */
+  highestContiguousIndex: number;
+  onChainNextIndex: number | null;
+  lagLeaves: number;
+  lagSeconds: number;
+}
+
+export interface IndexerStatus {
+  lagging: boolean;
+  thresholds: { maxLagLeaves: number; maxLagSeconds: number };
+  indexer: {
+    running: boolean;
+    holder: string | null;
+    ingestModes: string[];
+    subscription: 'connected' | 'reconnecting' | 'disabled' | 'down';
+    lastNotificationAt: string | null;
+    heartbeatAt: string | null;
+  };
+  tokens: TokenIndexerStatus[];
+}
+
+const statusCache = createCache<IndexerStatus>(STATUS_CACHE_TTL_MS);
+/** When this node first saw each token's tree behind the chain (cleared once caught up) */
+const behindSince = new Map<string, number>();
+
+async function tokenStatus(token: string): Promise<TokenIndexerStatus> {
+  const [state, tree, last] = await Promise.all([
+    fetchMerkleTreeState(getMintFromToken(token)),
+    syncTree(token),
+    getStore().lastIndexedCommitment(token),
+  ]);
+  const contiguous = tree.size();
+  const lagLeaves = state ? Math.max(0, state.nextIndex - contiguous) : 0;
+  const now = Date.now();
+  if (lagLeaves === 0) {
+    behindSince.delete(token);
+  } else if (!behindSince.has(token)) {
+    behindSince.set(token, now);
+  }
+  const since = behindSince.get(token);
+  return {
+    token,
+    initialized: state !== null,
+    lastIndexedSlot: last?.slot ?? null,
+    lastIndexedSignature: last?.transaction_signature ?? null,
+    lastEventAt: last?.created_at ?? null,
+    highestContiguousIndex: contiguous - 1,
+    onChainNextIndex: state?.nextIndex ?? null,
+    lagLeaves,
+    lagSeconds: since === undefined ? 0 : Math.floor((now - since) / 1000),
+  };
+}
+
+/** True when any token is past INDEXER_MAX_LAG_LEAVES or INDEXER_MAX_LAG_SECONDS (0 disables either). */
+function isLagging(tokens: TokenIndexerStatus[]): boolean {
+  const { indexerMaxLagLeaves, indexerMaxLagSeconds } = config;
+  return tokens.some(
+    (t) =>
+      (indexerMaxLagLeaves > 0 && t.lagLeaves > indexerMaxLagLeaves) ||
+      (indexerMaxLagSeconds > 0 && t.lagSeconds > indexerMaxLagSeconds)
+  );
+}
+
+export async function getIndexerStatus(): Promise<IndexerStatus> {
+  const cached = statusCache.get('status');
+  if (cached) return cached;
+
+  const [heartbeat, tokens] = await Promise.all([readHeartbeat(), Promise.all(SUPPORTED_TOKENS.map(tokenStatus))]);
+  const running = heartbeat !== null && Date.now() - new Date(heartbeat.heartbeat_at).getTime() < HEARTBEAT_STALE_MS;
+  const status: IndexerStatus = {
+    lagging: isLagging(tokens),
+    thresholds: { maxLagLeaves: config.indexerMaxLagLeaves, maxLagSeconds: config.indexerMaxLagSeconds },
+    indexer: {
+      running,
+      holder: heartbeat?.holder ?? null,
+      ingestModes: heartbeat ? heartbeat.ingest_modes.split(',') : [],
+      subscription: running && heartbeat ? heartbeat.subscription_state : 'down',
+      lastNotificationAt: heartbeat?.last_notification_at ?? null,
+      heartbeatAt: heartbeat?.heartbeat_at ?? null,
+    },
+    tokens,
+  };
+  statusCache.set('status', status);
+  return status;
+}
@@ -0,0 +1,94 @@
+/**
+ * Webhook ingestion (POST /ingest/webhook): transaction webhooks from the RPC provider as an
+ * alternative to the onLogs subscription. Two payload shapes are accepted, as a single object or an
+ * array (providers batch):
+ *   - raw:      getTransaction JSON ({ slot, meta: { err, logMessages }, transaction: { signatures } });
+ *               logs go straight through processLogLines like the live subscription.
+ *   - enhanced: parsed transactions ({ signature, slot, transactionError }) without logs; the
+ *               transaction is fetched from RPC and indexed like the backfill does.
+ * Everything is an idempotent upsert, so provider retries and overlap with other modes are harmless.
+ */
+import { indexLogs, indexTransaction } from './ingest.js';
+import { indexNullifiersForSignature } from './nullifiers.js';
+import { fetchTransaction } from './rpc.js';
+
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookPayloadError';
+  }
+}
+
+export interface WebhookTransaction {
+  signature: string;
+  slot: number | null;
+  failed: boolean;
+  /** Present for raw payloads; null when the transaction has to be fetched */
+  logMessages: string[] | null;
+}
+
+export interface WebhookResult {
+  transactions: number;
+  skippedFailed: number;
+  commitments: number;
+}
+
+/** Webhook batches are small; a payload beyond this is not from the provider. */
+const MAX_WEBHOOK_TRANSACTIONS = 1000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseOne(item: unknown, position: number): WebhookTransaction {
+  if (!isRecord(item)) throw new WebhookPayloadError(`Item ${position} is not an object`);
+  const slot = typeof item.slot === 'number' ? item.slot : null;
+
+  const transaction = item.transaction;
+  const meta = item.meta;
+  if (isRecord(transaction) && Array.isArray(transaction.signatures) && isRecord(meta)) {
+    const [signature] = transaction.signatures;
+    if (typeof signature !== 'string') throw new WebhookPayloadError(`Item ${position} has no signature`);
+    const logs = meta.logMessages;
+    const logMessages = Array.isArray(logs) && logs.every((l) => typeof l === 'string') ? (logs as string[]) : null;
+    return { signature, slot, failed: meta.err != null, logMessages };
+  }
+
+  if (typeof item.signature === 'string') {
+    return { signature: item.signature, slot, failed: item.transactionError != null, logMessages: null };
+  }
+
+  throw new WebhookPayloadError(`Item ${position} is neither a raw nor an enhanced transaction`);
+}
+
+export function parseWebhookPayload(body: unknown): WebhookTransaction[] {
+  const items = Array.isArray(body) ? body : [body];
+  if (items.length > MAX_WEBHOOK_TRANSACTIONS) {
+    throw new WebhookPayloadError(`Maximum ${MAX_WEBHOOK_TRANSACTIONS} transactions per payload`);
+  }
+  return items.map(parseOne);
+}
+
+/**
+ * Index webhook transactions in order. Throws if a transaction cannot be indexed (DB error,
+ * enhanced transaction not yet available from RPC) so the provider retries the delivery.
+ */
+export async function ingestWebhookTransactions(transactions: WebhookTransaction[]): Promise<WebhookResult> {
+  const result: WebhookResult = { transactions: transactions.length, skippedFailed: 0, commitments: 0 };
+  for (const tx of transactions) {
+    if (tx.failed) {
+      result.skippedFailed++;
+      continue;
+    }
+    if (tx.logMessages) {
+      result.commitments += await indexLogs(tx.logMessages, tx.signature, tx.slot, 'confirmed');
+      // Only transact instructions emit commitment events (and spend nullifiers)
+      if (tx.logMessages.some((l) => l.includes('Program data:'))) await indexNullifiersForSignature(tx.signature);
+      continue;
+    }
+    const fetched = await fetchTransaction(tx.signature);
+    if (!fetched) throw new Error(`Transaction ${tx.signature} not available from RPC yet`);
+    result.commitments += await indexTransaction(fetched, tx.signature, 'confirmed');
+  }
+  return result;
+}
@@ -0,0 +1,8 @@
+/**
+ * Split items into batches for size-limited APIs (RPC multi-account calls, PostgREST `in` filters)
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
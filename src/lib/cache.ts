@@ -1,5 +1,5 @@
 /**
- * Simple in-memory TTL cache for config and merkle state
+ * Simple in-memory caches: TTL for config and merkle state, LRU for finalized UTXO ranges
  */
 
 interface CacheEntry<T> {
@@ -28,3 +28,31 @@ export function createCache<T>(ttlMs: number) {
 
   return { get, set };
 }
+
+/**
+ * In-memory LRU cache for values that never go stale (e.g. finalized ranges); holds at most
+ * maxEntries, 0 disables it
+ */
+export function createLruCache<T>(maxEntries: number) {
+  const store = new Map<string, T>();
+
+  function get(key: string): T | undefined {
+    const value = store.get(key);
+    if (value === undefined) return undefined;
+    // Map keeps insertion order: re-insert so the oldest entry is always first
+    store.delete(key);
+    store.set(key, value);
+    return value;
+  }
+
+  function set(key: string, value: T): void {
+    if (maxEntries <= 0) return;
+    store.delete(key);
+    store.set(key, value);
+    while (store.size > maxEntries) {
+      store.delete(store.keys().next().value as string);
+    }
+  }
+
+  return { get, set };
+}
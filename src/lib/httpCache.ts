@@ -0,0 +1,22 @@
+/**
+ * HTTP caching helpers. Express answers If-None-Match with 304 by itself once an ETag is set, so
+ * handlers only choose the Cache-Control policy.
+ */
+import { createHash } from 'crypto';
+import type { Response } from 'express';
+
+/**
+ * For responses that should not change, e.g. ranges below the finalized tip. Not `immutable`: an
+ * operator resync can still rewrite finalized rows, so caches serve them for a minute and then
+ * revalidate with the ETag, which stays a cheap 304 while the rows are unchanged.
+ */
+export const CACHE_FINALIZED = 'public, max-age=60';
+/** Cacheable, but revalidate with the ETag every time */
+export const CACHE_REVALIDATE = 'no-cache';
+
+/** Send `body` as JSON with a strong ETag over its bytes and the given Cache-Control. */
+export function sendJson(res: Response, body: unknown, cacheControl: string): void {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha256').update(json).digest('base64url').slice(0, 32)}"`;
+  res.set({ ETag: etag, 'Cache-Control': cacheControl }).type('json').send(json);
+}
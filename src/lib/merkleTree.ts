@@ -0,0 +1,107 @@
+/**
+ * Incremental BN254 Poseidon Merkle tree, same shape as the Shade program and circuit:
+ * depth 26, empty leaf = 0, zeros[i + 1] = Poseidon(zeros[i], zeros[i]).
+ * Every filled node is kept in memory so paths are a lookup per level.
+ */
+import { poseidon2 } from 'poseidon-lite/poseidon2';
+
+export const MERKLE_DEPTH = 26;
+
+export function hashLeftRight(left: bigint, right: bigint): bigint {
+  return poseidon2([left, right]);
+}
+
+/** zeros[level] = root of an empty subtree of that height. */
+const ZEROS: bigint[] = [0n];
+for (let level = 1; level <= MERKLE_DEPTH; level++) {
+  ZEROS.push(hashLeftRight(ZEROS[level - 1], ZEROS[level - 1]));
+}
+
+export function zeroValue(level: number): bigint {
+  return ZEROS[level];
+}
+
+export interface MerklePath {
+  pathElements: string[];
+  pathIndices: number[];
+}
+
+export function createMerkleTree(depth = MERKLE_DEPTH) {
+  // layers[0] = leaves, layers[depth] = [root]
+  const layers: bigint[][] = Array.from({ length: depth + 1 }, () => []);
+
+  function size(): number {
+    return layers[0].length;
+  }
+
+  function root(): bigint {
+    return layers[depth][0] ?? ZEROS[depth];
+  }
+
+  /** Append leaves and recompute only the nodes above them. */
+  function insertMany(leaves: bigint[]): void {
+    if (leaves.length === 0) return;
+    if (size() + leaves.length > 2 ** depth) {
+      throw new Error('Merkle tree is full');
+    }
+    let from = size();
+    layers[0].push(...leaves);
+    for (let level = 0; level < depth; level++) {
+      const nodes = layers[level];
+      const parents = layers[level + 1];
+      const parentFrom = Math.floor(from / 2);
+      const parentTo = Math.floor((nodes.length - 1) / 2);
+      for (let p = parentFrom; p <= parentTo; p++) {
+        const left = nodes[2 * p];
+        const right = nodes[2 * p + 1] ?? ZEROS[level];
+        parents[p] = hashLeftRight(left, right);
+      }
+      from = parentFrom;
+    }
+  }
+
+  function insert(leaf: bigint): void {
+    insertMany([leaf]);
+  }
+
+  function path(leafIndex: number): MerklePath {
+    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= size()) {
+      throw new Error(`Leaf index ${leafIndex} out of range (size ${size()})`);
+    }
+    const pathElements: string[] = [];
+    const pathIndices: number[] = [];
+    let index = leafIndex;
+    for (let level = 0; level < depth; level++) {
+      pathIndices.push(index % 2);
+      pathElements.push((layers[level][index ^ 1] ?? ZEROS[level]).toString());
+      index = Math.floor(index / 2);
+    }
+    return { pathElements, pathIndices };
+  }
+
+  function leaf(index: number): bigint | undefined {
+    return layers[0][index];
+  }
+
+  /**
+   * The program's `subtrees` (filled subtrees): per level, the latest node written as a left child,
+   * i.e. the last even-indexed node on that level, or the zero hash before any insert.
+   */
+  function frontier(): string[] {
+    const subtrees: string[] = [];
+    for (let level = 0; level < depth; level++) {
+      const count = layers[level].length;
+      if (count === 0) {
+        subtrees.push(ZEROS[level].toString());
+        continue;
+      }
+      const lastLeft = (count - 1) & ~1;
+      subtrees.push(layers[level][lastLeft].toString());
+    }
+    return subtrees;
+  }
+
+  return { depth, size, root, insert, insertMany, path, leaf, frontier };
+}
+
+export type MerkleTree = ReturnType<typeof createMerkleTree>;
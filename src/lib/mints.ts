@@ -0,0 +1,45 @@
+/**
+ * Token -> mint used to derive each token's merkle tree PDA
+ */
+import { PublicKey } from '@solana/web3.js';
+import { config } from '../config/env.js';
+
+const DEVNET_MINTS: Record<string, string> = {
+  sol: '11111111111111111111111111111112',
+  usdc: 'DWvrXGqTYq1SW9ey857z1nXBxSxihwxdFyQfaRunsAXa',
+  usdt: 'EcFc2cMyZxaKBkFK1XooxiyDyCPneLXiMwSJiVY6eTad',
+  yesa: 'EwtK6Bydxsm4vAvvMiEG3ymtkJ7WToRpQdeV45wB1Qpa',
+  zec: 'Vu3Lcx3chdCHmy9KCCdd19DdJsLejHAZxm1E1bTgE16',
+  ore: '6zxkY8UygHKBf64LJDXnzcYr9wdvyqScmj7oGPBFw58Z',
+  store: '5MvqBFU5zeHaEfRuAFW2RhqidHLb7Ejsa6sUwPQQXcj1',
+};
+const MAINNET_MINTS: Record<string, string> = {
+  sol: '11111111111111111111111111111112',
+  usdc: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  usdt: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+  yesa: 'USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB',
+  zec: 'A7bdiYdS5GjqGFtxf17ppRHtDKPkkRqbKtR27dxvQXaS',
+  ore: 'oreoU2P8bN6jkk3jbaiVxYnG1dCXcYxwhwyK9jSybcp',
+  store: 'sTorERYB6xAZ1SSbwpK3zoK2EEwbBrc7TZAzg1uCGiH',
+};
+
+const MINT_BY_TOKEN = config.isDevnet ? DEVNET_MINTS : MAINNET_MINTS;
+
+export const SUPPORTED_TOKENS = Object.keys(MINT_BY_TOKEN);
+
+/** mint_address the program hashes into a SOL transfer's ext data (SOL's tree PDA has no mint seed). */
+export const SOL_MINT_ADDRESS = new PublicKey(MINT_BY_TOKEN.sol);
+
+/** Tree mint for a token; undefined for SOL, which uses the seedless tree PDA. */
+export function getMintFromToken(token?: string): PublicKey | undefined {
+  if (!token || token === 'sol') return undefined;
+  const mintStr = MINT_BY_TOKEN[token];
+  if (!mintStr) return undefined;
+  return new PublicKey(mintStr);
+}
+
+/** Token for a supported SPL mint; undefined for unknown mints. */
+export function getTokenFromMint(mint: PublicKey): string | undefined {
+  const mintStr = mint.toBase58();
+  return SUPPORTED_TOKENS.find((token) => token !== 'sol' && MINT_BY_TOKEN[token] === mintStr);
+}
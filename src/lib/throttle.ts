@@ -0,0 +1,34 @@
+/**
+ * Client-side request pacing for public RPC endpoints
+ */
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Returns a function that resolves no faster than `perSecond` times per second across all callers. */
+export function createThrottle(perSecond: number) {
+  const intervalMs = perSecond > 0 ? 1000 / perSecond : 0;
+  let nextAt = 0;
+
+  return async function throttle(): Promise<void> {
+    const now = Date.now();
+    const wait = Math.max(0, nextAt - now);
+    nextAt = Math.max(now, nextAt) + intervalMs;
+    if (wait > 0) await sleep(wait);
+  };
+}
+
+/** Retry `fn` with exponential backoff; meant for transient RPC errors (429, timeouts). */
+export async function withRetry<T>(fn: () => Promise<T>, attempts = 5, baseDelayMs = 500): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      lastError = e;
+      if (attempt < attempts - 1) await sleep(baseDelayMs * 2 ** attempt);
+    }
+  }
+  throw lastError;
+}
@@ -1,10 +1,13 @@
 /**
  * Input validation and sanitization helpers
  */
+import bs58 from 'bs58';
 
 const ALLOWED_TOKENS = new Set(['sol', 'usdc', 'usdt', 'yesa', 'zec', 'ore', 'store']);
 const BASE64_REGEX = /^[A-Za-z0-9+/]*={0,2}$/;
 const SOLANA_BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const SIGNATURE_BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
 
 export function isValidToken(token: unknown): token is string {
   return typeof token === 'string' && ALLOWED_TOKENS.has(token.toLowerCase());
@@ -15,6 +18,11 @@ export function sanitizeToken(token: unknown): string {
   return token.toLowerCase();
 }
 
+/** `commitment` query param: 'finalized' restricts reads to settled leaves; anything else means 'confirmed'. */
+export function sanitizeCommitmentLevel(level: unknown): 'confirmed' | 'finalized' {
+  return level === 'finalized' ? 'finalized' : 'confirmed';
+}
+
 export function isValidBase64(str: unknown, maxBytes = 1024 * 1024): boolean {
   if (typeof str !== 'string' || str.length === 0) return false;
   if (str.length > maxBytes * 2) return false; // base64 is ~1.33x binary
@@ -27,8 +35,25 @@ export function isValidBase64(str: unknown, maxBytes = 1024 * 1024): boolean {
   }
 }
 
+/** Base58 that decodes to exactly 32 bytes, so `new PublicKey(str)` cannot throw */
 export function isValidSolanaAddress(str: unknown): boolean {
-  return typeof str === 'string' && str.length >= 32 && str.length <= 44 && SOLANA_BASE58_REGEX.test(str);
+  return (
+    typeof str === 'string' &&
+    str.length >= 32 &&
+    str.length <= 44 &&
+    SOLANA_BASE58_REGEX.test(str) &&
+    bs58.decode(str).length === 32
+  );
+}
+
+/** Transaction signature (base58, 64 bytes) */
+export function isValidSignature(str: unknown): boolean {
+  return typeof str === 'string' && SIGNATURE_BASE58_REGEX.test(str);
+}
+
+/** Submission id as returned by the relay routes */
+export function isValidSubmissionId(str: unknown): boolean {
+  return typeof str === 'string' && UUID_REGEX.test(str);
 }
 
 /** Commitment: decimal string, reasonable length (e.g. ~78 digits for 256-bit) */
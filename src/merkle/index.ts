@@ -0,0 +1,128 @@
+/**
+ * Per-token Poseidon trees held in memory so /merkle can return real proofs.
+ * A tree is seeded from the commitments table on first use, then advanced by the indexer
+ * (appendCommitments) and topped up from the DB on every read (syncTree). Only a contiguous
+ * prefix 0..n-1 is ever inserted; a missing index stops the tree until the row shows up.
+ * There is one tree per token and read level: the 'finalized' tree only takes finalized rows.
+ */
+import { getStore, CommitmentLevel, CommitmentStatus, visibleStatuses } from '../db/index.js';
+import { FIELD_SIZE } from '../lib/field.js';
+import { createMerkleTree, MerkleTree } from '../lib/merkleTree.js';
+
+const SYNC_PAGE_SIZE = 1000;
+
+interface TokenTree {
+  tree: MerkleTree;
+  syncing: Promise<void> | null;
+}
+
+const trees = new Map<string, TokenTree>();
+
+function treeKey(token: string, level: CommitmentLevel): string {
+  return `${token}:${level}`;
+}
+
+function getEntry(token: string, level: CommitmentLevel): TokenTree {
+  const key = treeKey(token, level);
+  let entry = trees.get(key);
+  if (!entry) {
+    entry = { tree: createMerkleTree(), syncing: null };
+    trees.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Insert rows that continue the tree exactly at its current size. Stops at the first gap or
+ * out-of-field commitment and returns false so callers stop paging.
+ */
+function insertContiguous(
+  tree: MerkleTree,
+  token: string,
+  rows: Array<{ commitment_index: number; commitment: string }>
+): boolean {
+  const leaves: bigint[] = [];
+  let expected = tree.size();
+  let contiguous = true;
+  for (const row of rows) {
+    const index = Number(row.commitment_index);
+    if (index < expected) continue;
+    if (index > expected) {
+      contiguous = false;
+      break;
+    }
+    const value = BigInt(row.commitment);
+    if (value >= FIELD_SIZE) {
+      console.error(`Merkle tree [${token}]: commitment at index ${index} is not a field element; tree halted`);
+      contiguous = false;
+      break;
+    }
+    leaves.push(value);
+    expected++;
+  }
+  tree.insertMany(leaves);
+  return contiguous;
+}
+
+async function syncFromDb(token: string, level: CommitmentLevel, tree: MerkleTree): Promise<void> {
+  const store = getStore();
+  for (;;) {
+    const rows = await store.listCommitments({
+      token,
+      statuses: visibleStatuses(level),
+      fromIndex: tree.size(),
+      limit: SYNC_PAGE_SIZE,
+    });
+    const contiguous = insertContiguous(tree, token, rows);
+    if (!contiguous || rows.length < SYNC_PAGE_SIZE) return;
+    // Yield between pages so seeding a large pool does not starve request handling
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+/** Return the token's tree after pulling any rows the DB has beyond its current size. */
+export async function syncTree(token: string, level: CommitmentLevel = 'confirmed'): Promise<MerkleTree> {
+  const entry = getEntry(token, level);
+  if (!entry.syncing) {
+    entry.syncing = syncFromDb(token, level, entry.tree).finally(() => {
+      entry.syncing = null;
+    });
+  }
+  await entry.syncing;
+  return entry.tree;
+}
+
+/**
+ * Advance already-loaded trees with freshly indexed rows. Trees that are not loaded yet, or rows
+ * that do not continue a tree, are left for the next syncTree to read from the DB.
+ */
+export function appendCommitments(
+  rows: Array<{ token: string; commitment_index: number; commitment: string; status: CommitmentStatus }>
+): void {
+  for (const level of ['confirmed', 'finalized'] as const) {
+    const statuses = visibleStatuses(level);
+    const byToken = new Map<string, Array<{ commitment_index: number; commitment: string }>>();
+    for (const row of rows) {
+      if (!statuses.includes(row.status)) continue;
+      const list = byToken.get(row.token) ?? [];
+      list.push(row);
+      byToken.set(row.token, list);
+    }
+    for (const [token, list] of byToken) {
+      const entry = trees.get(treeKey(token, level));
+      if (!entry || entry.syncing) continue;
+      list.sort((a, b) => a.commitment_index - b.commitment_index);
+      insertContiguous(entry.tree, token, list);
+    }
+  }
+}
+
+/**
+ * Drop the token's trees so the next syncTree rebuilds them from the DB. Used when leaves already
+ * in a tree turn out to be wrong (orphaned rows, root mismatch with the chain).
+ */
+export function resetTree(token: string): void {
+  for (const level of ['confirmed', 'finalized'] as const) {
+    trees.delete(treeKey(token, level));
+  }
+}
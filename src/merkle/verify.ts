@@ -0,0 +1,159 @@
+/**
+ * Consistency check of the indexed commitments for one token against the on-chain tree.
+ * Rebuilds a fresh tree from the DB (independent of the cached one in ./index.ts) so a failed
+ * proof can be attributed: rows missing or corrupt in the DB (indexer) vs roots that disagree
+ * over a complete, valid prefix (chain / hashing).
+ */
+import { getStore, CommitmentLevel, visibleStatuses } from '../db/index.js';
+import { FIELD_SIZE } from '../lib/field.js';
+import { createMerkleTree } from '../lib/merkleTree.js';
+import { getMintFromToken } from '../lib/mints.js';
+import { fetchMerkleTreeState } from '../solana/contract.js';
+
+const VERIFY_PAGE_SIZE = 1000;
+/** Cap on listed indices per category; counts are always exact. */
+const MAX_LISTED = 1000;
+
+export type VerifyStatus = 'ok' | 'incomplete' | 'invalid' | 'mismatch' | 'not_initialized';
+
+export interface VerifyReport {
+  token: string;
+  level: CommitmentLevel;
+  status: VerifyStatus;
+  rowCount: number;
+  onChainNextIndex: number | null;
+  /** Length of the gap-free, valid prefix 0..n-1 in the DB */
+  contiguousSize: number;
+  missingCount: number;
+  missingIndices: number[];
+  duplicateCount: number;
+  duplicateIndices: number[];
+  outOfFieldCount: number;
+  outOfField: Array<{ index: number; commitment: string }>;
+  /** Indices at or beyond the on-chain nextIndex (indexed ahead of the account read) */
+  aheadOfChainCount: number;
+  computedRoot: string | null;
+  onChainRoot: string | null;
+  rootMatches: boolean | null;
+  subtreesMatch: boolean | null;
+  mismatchedSubtreeLevels: number[];
+}
+
+function pushCapped<T>(list: T[], item: T): void {
+  if (list.length < MAX_LISTED) list.push(item);
+}
+
+async function loadCommitments(
+  token: string,
+  level: CommitmentLevel
+): Promise<Array<{ commitment_index: number; commitment: string }>> {
+  const store = getStore();
+  const rows: Array<{ commitment_index: number; commitment: string }> = [];
+  for (let offset = 0; ; offset += VERIFY_PAGE_SIZE) {
+    const page = await store.listCommitments({
+      token,
+      statuses: visibleStatuses(level),
+      limit: VERIFY_PAGE_SIZE,
+      offset,
+    });
+    for (const r of page) {
+      rows.push({ commitment_index: r.commitment_index, commitment: r.commitment });
+    }
+    if (page.length < VERIFY_PAGE_SIZE) return rows;
+  }
+}
+
+/** With level 'finalized', only finalized rows are checked against the tree as of the finalized slot. */
+export async function verifyTree(token: string, level: CommitmentLevel = 'confirmed'): Promise<VerifyReport> {
+  const [rows, state] = await Promise.all([
+    loadCommitments(token, level),
+    fetchMerkleTreeState(getMintFromToken(token), level),
+  ]);
+
+  const report: VerifyReport = {
+    token,
+    level,
+    status: 'ok',
+    rowCount: rows.length,
+    onChainNextIndex: state?.nextIndex ?? null,
+    contiguousSize: 0,
+    missingCount: 0,
+    missingIndices: [],
+    duplicateCount: 0,
+    duplicateIndices: [],
+    outOfFieldCount: 0,
+    outOfField: [],
+    aheadOfChainCount: 0,
+    computedRoot: null,
+    onChainRoot: state?.root ?? null,
+    rootMatches: null,
+    subtreesMatch: null,
+    mismatchedSubtreeLevels: [],
+  };
+
+  // First valid commitment per index; rows are sorted by index
+  const byIndex = new Map<number, bigint>();
+  let maxIndex = -1;
+  for (const row of rows) {
+    const index = row.commitment_index;
+    if (byIndex.has(index)) {
+      report.duplicateCount++;
+      pushCapped(report.duplicateIndices, index);
+      continue;
+    }
+    const value = BigInt(row.commitment);
+    if (value >= FIELD_SIZE) {
+      report.outOfFieldCount++;
+      pushCapped(report.outOfField, { index, commitment: row.commitment });
+      continue;
+    }
+    byIndex.set(index, value);
+    maxIndex = Math.max(maxIndex, index);
+    if (state && index >= state.nextIndex) report.aheadOfChainCount++;
+  }
+
+  // Missing = every index below the chain's nextIndex (or the highest indexed row) with no valid row
+  const expectedSize = state ? state.nextIndex : maxIndex + 1;
+  let contiguous = true;
+  for (let i = 0; i < expectedSize; i++) {
+    if (byIndex.has(i)) {
+      if (contiguous) report.contiguousSize++;
+      continue;
+    }
+    contiguous = false;
+    report.missingCount++;
+    pushCapped(report.missingIndices, i);
+  }
+
+  if (state === null) {
+    report.status = 'not_initialized';
+    return report;
+  }
+
+  if (report.contiguousSize === state.nextIndex) {
+    const tree = createMerkleTree();
+    const leaves: bigint[] = [];
+    for (let i = 0; i < state.nextIndex; i++) leaves.push(byIndex.get(i)!);
+    for (let from = 0; from < leaves.length; from += VERIFY_PAGE_SIZE) {
+      tree.insertMany(leaves.slice(from, from + VERIFY_PAGE_SIZE));
+      // Yield between chunks so a large rebuild does not starve request handling
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    report.computedRoot = tree.root().toString();
+    report.rootMatches = report.computedRoot === state.root;
+    const frontier = tree.frontier();
+    state.subtrees.forEach((subtree, height) => {
+      if (frontier[height] !== subtree) report.mismatchedSubtreeLevels.push(height);
+    });
+    report.subtreesMatch = report.mismatchedSubtreeLevels.length === 0;
+  }
+
+  if (report.duplicateCount > 0 || report.outOfFieldCount > 0) {
+    report.status = 'invalid';
+  } else if (report.missingCount > 0) {
+    report.status = 'incomplete';
+  } else if (report.rootMatches === false || report.subtreesMatch === false) {
+    report.status = 'mismatch';
+  }
+  return report;
+}
@@ -0,0 +1,93 @@
+/**
+ * Compute budget for relayed withdraws. The unit limit is the simulated consumption plus
+ * COMPUTE_UNIT_HEADROOM_BPS. The unit price is the PRIORITY_FEE_PERCENTILE of the prioritization
+ * fees recently paid to write the same accounts (tree, nullifier PDAs), kept between
+ * RELAYER_PRIORITY_FEE_MICRO_LAMPORTS and PRIORITY_FEE_MAX_MICRO_LAMPORTS.
+ */
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { config } from '../config/env.js';
+import { getConnection } from '../solana/connection.js';
+
+/** Most a transaction may request */
+export const MAX_COMPUTE_UNITS = 1_400_000;
+/** Limit used when a simulation reports no consumption, and for quotes made before there is a transaction */
+export const WITHDRAW_COMPUTE_UNITS = 400_000;
+
+export interface ComputeBudget {
+  computeUnitLimit: number;
+  priorityFeeMicroLamports: number;
+}
+
+export interface SimulatedBudget {
+  budget: ComputeBudget;
+  /** Set when the simulated transaction failed; the budget is then the default limit */
+  error: TransactionError | string | null;
+  logs: string[] | null;
+}
+
+/** Percentile of recent prioritization fees for writing these accounts, within the configured floor and cap */
+export async function priorityFeeMicroLamports(writableAccounts: PublicKey[]): Promise<number> {
+  const recent = await getConnection().getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts });
+  const fees = recent.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+  const percentile = Math.min(100, Math.max(0, config.priorityFeePercentile));
+  const fee = fees.length === 0 ? 0 : fees[Math.min(fees.length - 1, Math.floor((fees.length * percentile) / 100))];
+  return Math.min(config.priorityFeeMaxMicroLamports, Math.max(config.relayerPriorityFeeMicroLamports, fee));
+}
+
+/** What the relayer pays for the priority fee, in lamports */
+export function priorityFeeLamports(budget: ComputeBudget): number {
+  return Math.ceil((budget.computeUnitLimit * budget.priorityFeeMicroLamports) / 1_000_000);
+}
+
+export function computeBudgetInstructions(budget: ComputeBudget): TransactionInstruction[] {
+  const instructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: budget.computeUnitLimit })];
+  if (budget.priorityFeeMicroLamports > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: budget.priorityFeeMicroLamports }));
+  }
+  return instructions;
+}
+
+/**
+ * Price the transaction made of `instructions` and simulate it (unsigned, at the latest blockhash)
+ * to size its unit limit.
+ */
+export async function sizeComputeBudget(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[],
+  writableAccounts: PublicKey[]
+): Promise<SimulatedBudget> {
+  const connection = getConnection();
+  const [price, { blockhash }] = await Promise.all([
+    priorityFeeMicroLamports(writableAccounts),
+    connection.getLatestBlockhash('confirmed'),
+  ]);
+  const probe = { computeUnitLimit: MAX_COMPUTE_UNITS, priorityFeeMicroLamports: price };
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [...computeBudgetInstructions(probe), ...instructions],
+  }).compileToV0Message(lookupTables);
+  const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed',
+  });
+  const consumed = value.err ? undefined : value.unitsConsumed;
+  const computeUnitLimit = consumed
+    ? Math.min(MAX_COMPUTE_UNITS, Math.ceil((consumed * (10_000 + config.computeUnitHeadroomBps)) / 10_000))
+    : WITHDRAW_COMPUTE_UNITS;
+  return {
+    budget: { computeUnitLimit, priorityFeeMicroLamports: price },
+    error: value.err,
+    logs: value.logs,
+  };
+}
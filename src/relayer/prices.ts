@@ -0,0 +1,69 @@
+/**
+ * SPL token prices in SOL for relayer fee quotes. QUOTE_TOKEN_PRICES wins; other tokens are priced
+ * from PRICE_API_URL (Jupiter price API v3: USD price per mint), cached for a minute. The price API
+ * only knows mainnet mints, so on devnet every SPL token needs a configured price.
+ */
+import { PublicKey } from '@solana/web3.js';
+import { getMint } from '@solana/spl-token';
+import { config } from '../config/env.js';
+import { createCache } from '../lib/cache.js';
+import { getConnection } from '../solana/connection.js';
+
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const PRICE_TTL_MS = 60_000;
+const PRICE_TIMEOUT_MS = 5_000;
+
+/** No price for a token right now; routes answer 503 PRICE_UNAVAILABLE */
+export class PriceUnavailableError extends Error {
+  constructor(readonly token: string) {
+    super(`No price available for ${token}; try again later`);
+    this.name = 'PriceUnavailableError';
+  }
+}
+
+const prices = createCache<number>(PRICE_TTL_MS);
+const decimalsByMint = new Map<string, number>();
+
+async function fetchTokensPerSol(token: string, mint: PublicKey): Promise<number> {
+  const url = `${config.priceApiUrl}?ids=${WRAPPED_SOL_MINT},${mint.toBase58()}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(PRICE_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Price API returned ${response.status}`);
+  const body = (await response.json()) as Record<string, { usdPrice?: number } | undefined>;
+  const solUsd = body[WRAPPED_SOL_MINT]?.usdPrice;
+  const tokenUsd = body[mint.toBase58()]?.usdPrice;
+  if (!solUsd || !tokenUsd) throw new Error(`Price API has no price for ${token}`);
+  return solUsd / tokenUsd;
+}
+
+/** Whole tokens per 1 SOL; throws PriceUnavailableError when no price is available */
+export async function tokensPerSol(token: string, mint: PublicKey): Promise<number> {
+  const configured = config.quoteTokenPrices[token];
+  if (configured !== undefined) return configured;
+  const cached = prices.get(token);
+  if (cached !== undefined) return cached;
+  if (config.isDevnet) {
+    console.warn(`Relayer prices: no QUOTE_TOKEN_PRICES entry for ${token} (required on devnet)`);
+    throw new PriceUnavailableError(token);
+  }
+
+  let price: number;
+  try {
+    price = await fetchTokensPerSol(token, mint);
+  } catch (e) {
+    console.warn(`Relayer prices: ${token} price lookup failed:`, e instanceof Error ? e.message : e);
+    throw new PriceUnavailableError(token);
+  }
+  prices.set(token, price);
+  return price;
+}
+
+/** Mint decimals, read once per mint */
+export async function mintDecimals(mint: PublicKey): Promise<number> {
+  const key = mint.toBase58();
+  let decimals = decimalsByMint.get(key);
+  if (decimals === undefined) {
+    decimals = (await getMint(getConnection(), mint)).decimals;
+    decimalsByMint.set(key, decimals);
+  }
+  return decimals;
+}
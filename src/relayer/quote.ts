@@ -0,0 +1,202 @@
+/**
+ * Relayer fee quotes. The relayer pays the network fee, its priority fee and the rent of any token
+ * account it creates for an SPL withdraw; a quote is the withdraw fee (in the token's base units)
+ * that covers that cost plus QUOTE_MARGIN_BPS. Quotes price WITHDRAW_COMPUTE_UNITS at the current
+ * priority fee for the tree account; withdraws are checked with their simulated budget
+ * (./computeBudget.ts).
+ *
+ * Quote ids are HMAC-signed and stateless, so any replica sharing QUOTE_SECRET accepts them until
+ * they expire.
+ *
+ * Withdraws must pay at least the minimum of a valid quote for their token, or, without one, the
+ * minimum at current prices.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { ACCOUNT_SIZE, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { config } from '../config/env.js';
+import { getMintFromToken } from '../lib/mints.js';
+import { getConnection, getRelayerKeypair } from '../solana/connection.js';
+import { fetchGlobalConfig, getTreeAccountPDA } from '../solana/contract.js';
+import type { WithdrawCheckFailure } from '../solana/withdrawChecks.js';
+import {
+  ComputeBudget,
+  priorityFeeLamports,
+  priorityFeeMicroLamports,
+  WITHDRAW_COMPUTE_UNITS,
+} from './computeBudget.js';
+import { mintDecimals, tokensPerSol } from './prices.js';
+
+const LAMPORTS_PER_SIGNATURE = 5_000;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const BASIS_POINTS = 10_000n;
+
+const secret = config.quoteSecret || randomBytes(32).toString('hex');
+if (!config.quoteSecret) {
+  console.warn('QUOTE_SECRET is not set: relayer quotes are only valid on this process (required in production)');
+}
+
+/** What a quote id commits to. Not the amount: the relayer's cost does not depend on it. */
+interface SignedQuote {
+  token: string;
+  /** Lowest fee the relayer accepts under this quote, in token base units */
+  minFee: string;
+  /** Whether the quote assumed the recipient's token account exists (no rent for it) */
+  recipientAtaExists: boolean;
+  expiresAt: number;
+}
+
+export interface RelayerCost extends ComputeBudget {
+  networkFeeLamports: number;
+  priorityFeeLamports: number;
+  rentLamports: number;
+  /** Sum of the above plus the margin */
+  totalLamports: number;
+  marginBps: number;
+}
+
+export interface FeeQuote {
+  quoteId: string;
+  token: string;
+  /** The amount protocolFee was computed for; the quote id does not bind it */
+  amount: string;
+  /** Fee to put in the proof: the larger of minFee and the protocol's withdrawal fee for amount */
+  fee: string;
+  minFee: string;
+  protocolFee: string;
+  cost: RelayerCost;
+  expiresAt: string;
+}
+
+let tokenAccountRent: number | null = null;
+
+/** Without a `budget` the priority fee is estimated for WITHDRAW_COMPUTE_UNITS */
+async function relayerCost(
+  mint: PublicKey | undefined,
+  recipientAtaExists: boolean,
+  budget?: ComputeBudget
+): Promise<RelayerCost> {
+  const connection = getConnection();
+  budget ??= {
+    computeUnitLimit: WITHDRAW_COMPUTE_UNITS,
+    priorityFeeMicroLamports: await priorityFeeMicroLamports([getTreeAccountPDA(mint)]),
+  };
+  let rentLamports = 0;
+  if (mint) {
+    const relayer = getRelayerKeypair();
+    if (!relayer) throw new Error('Relayer keypair not configured');
+    const relayerAta = await connection.getAccountInfo(getAssociatedTokenAddressSync(mint, relayer.publicKey));
+    const created = (recipientAtaExists ? 0 : 1) + (relayerAta ? 0 : 1);
+    if (created > 0) {
+      tokenAccountRent ??= await connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE);
+      rentLamports = created * tokenAccountRent;
+    }
+  }
+  const networkFeeLamports = LAMPORTS_PER_SIGNATURE;
+  const priorityFee = priorityFeeLamports(budget);
+  const base = networkFeeLamports + priorityFee + rentLamports;
+  return {
+    ...budget,
+    networkFeeLamports,
+    priorityFeeLamports: priorityFee,
+    rentLamports,
+    totalLamports: Math.ceil((base * (10_000 + config.quoteMarginBps)) / 10_000),
+    marginBps: config.quoteMarginBps,
+  };
+}
+
+/** Relayer cost in the token's base units (lamports for SOL), rounded up */
+async function costInToken(token: string, mint: PublicKey | undefined, lamports: number): Promise<bigint> {
+  if (!mint) return BigInt(lamports);
+  const [price, decimals] = await Promise.all([tokensPerSol(token, mint), mintDecimals(mint)]);
+  return BigInt(Math.ceil((lamports / LAMPORTS_PER_SOL) * price * 10 ** decimals));
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function encodeQuoteId(quote: SignedQuote): string {
+  const payload = Buffer.from(JSON.stringify(quote)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/** The signed quote, or null when the id is malformed or its signature does not verify */
+function decodeQuoteId(quoteId: string): SignedQuote | null {
+  const [payload, signature, ...rest] = quoteId.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as SignedQuote;
+  } catch {
+    return null;
+  }
+}
+
+/** Quote the fee for withdrawing `amount` (base units) of `token`. `recipientAtaExists` only matters for SPL. */
+export async function createQuote(token: string, amount: bigint, recipientAtaExists: boolean): Promise<FeeQuote> {
+  const mint = getMintFromToken(token);
+  const [cost, globalConfig] = await Promise.all([relayerCost(mint, recipientAtaExists), fetchGlobalConfig()]);
+  const minFee = await costInToken(token, mint, cost.totalLamports);
+  const protocolFee = (amount * BigInt(globalConfig.withdrawalFeeRate)) / BASIS_POINTS;
+  const signed: SignedQuote = {
+    token,
+    minFee: minFee.toString(),
+    recipientAtaExists: mint ? recipientAtaExists : true,
+    expiresAt: Date.now() + config.quoteTtlMs,
+  };
+  return {
+    quoteId: encodeQuoteId(signed),
+    token,
+    amount: amount.toString(),
+    fee: (minFee > protocolFee ? minFee : protocolFee).toString(),
+    minFee: signed.minFee,
+    protocolFee: protocolFee.toString(),
+    cost,
+    expiresAt: new Date(signed.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * null when `fee` covers the relayer's cost: at least the minFee of `quoteId` (if given, valid and
+ * for this token), otherwise at least the cost of `budget` at current prices.
+ */
+export async function checkRelayerFee(
+  token: string,
+  fee: bigint,
+  recipientAtaExists: boolean,
+  quoteId: unknown,
+  budget: ComputeBudget
+): Promise<WithdrawCheckFailure | null> {
+  if (quoteId !== undefined && quoteId !== null && quoteId !== '') {
+    const quote = typeof quoteId === 'string' ? decodeQuoteId(quoteId) : null;
+    if (!quote || quote.token !== token) return { error: 'Invalid quote', code: 'INVALID_QUOTE' };
+    if (Date.now() > quote.expiresAt) return { error: 'Quote expired; request a new one', code: 'QUOTE_EXPIRED' };
+    if (quote.recipientAtaExists && !recipientAtaExists) {
+      return { error: 'Quote assumed the recipient token account exists; request a new one', code: 'QUOTE_STALE' };
+    }
+    if (fee < BigInt(quote.minFee)) {
+      return {
+        error: 'Fee is below the quoted minimum',
+        code: 'FEE_BELOW_QUOTE',
+        fee: fee.toString(),
+        minFee: quote.minFee,
+      };
+    }
+    return null;
+  }
+  const mint = getMintFromToken(token);
+  const cost = await relayerCost(mint, recipientAtaExists, budget);
+  const minFee = await costInToken(token, mint, cost.totalLamports);
+  if (fee < minFee) {
+    return {
+      error: 'Fee does not cover the relayer cost; see POST /relayer/quote',
+      code: 'FEE_BELOW_COST',
+      fee: fee.toString(),
+      minFee: minFee.toString(),
+    };
+  }
+  return null;
+}
@@ -0,0 +1,101 @@
+/**
+ * Dry runs for the relay routes (`?simulate=true`). The route builds the same transaction as the
+ * live path and this module simulates it instead of sending it: signatures are not verified and
+ * the blockhash is replaced, so unsigned and stale transactions simulate too.
+ */
+import {
+  AddressLookupTableAccount,
+  PublicKey,
+  TransactionError,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { config } from '../config/env.js';
+import { getConnection, getRelayerKeypair } from '../solana/connection.js';
+import { programErrorInfo } from '../solana/idl.js';
+import { classifyTransactionError, shadeErrorName } from '../solana/programErrors.js';
+
+/** The instruction that failed and its error, decoded where the program is known */
+export interface ProgramError {
+  instruction: number;
+  programId: string;
+  /** Custom error code; null for built-in errors such as InvalidAccountData */
+  code: number | null;
+  name: string | null;
+  message: string | null;
+}
+
+export interface SimulationReport {
+  simulated: true;
+  success: boolean;
+  error: TransactionError | string | null;
+  /** Stable code the live route would answer with (../solana/programErrors.ts) */
+  errorCode: string | null;
+  programError: ProgramError | null;
+  unitsConsumed: number | null;
+  /** Writable accounts that do not exist now and would after the transaction */
+  accountsCreated: string[];
+  logs: string[];
+}
+
+function decodeProgramError(
+  error: TransactionError | string | null,
+  transaction: VersionedTransaction,
+  accountKeys: PublicKey[]
+): ProgramError | null {
+  const failed = (error as { InstructionError?: [number, unknown] } | null)?.InstructionError;
+  if (!failed) return null;
+  const [instruction, detail] = failed;
+  const compiled = transaction.message.compiledInstructions[instruction];
+  const programId = compiled ? accountKeys[compiled.programIdIndex] : undefined;
+  const custom = (detail as { Custom?: number } | null)?.Custom;
+  if (custom === undefined) {
+    return { instruction, programId: programId?.toBase58() ?? '', code: null, name: String(detail), message: null };
+  }
+  const isShade = programId?.equals(config.programId) ?? false;
+  const known = isShade ? programErrorInfo(custom) : null;
+  return {
+    instruction,
+    programId: programId?.toBase58() ?? '',
+    code: custom,
+    name: known?.name ?? (isShade ? shadeErrorName(custom) : null),
+    message: known?.message ?? null,
+  };
+}
+
+/** Simulate `transaction` without sending it. Lookup tables it references are fetched. */
+export async function simulateRelay(transaction: VersionedTransaction): Promise<SimulationReport> {
+  const connection = getConnection();
+  const { message } = transaction;
+  const lookupTables: AddressLookupTableAccount[] = [];
+  for (const lookup of message.addressTableLookups) {
+    const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!value) throw new Error(`Address lookup table ${lookup.accountKey.toBase58()} not found`);
+    lookupTables.push(value);
+  }
+  const keys = message.getAccountKeys({ addressLookupTableAccounts: lookupTables });
+  const accountKeys = [...keys.staticAccountKeys, ...(keys.accountKeysFromLookups?.writable ?? []), ...(keys.accountKeysFromLookups?.readonly ?? [])];
+  const writable = accountKeys.filter((_key, i) => message.isAccountWritable(i));
+
+  const before = await connection.getMultipleAccountsInfo(writable, 'confirmed');
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed',
+    accounts: { encoding: 'base64', addresses: writable.map((key) => key.toBase58()) },
+  });
+  const accountsCreated = writable
+    .filter((_key, i) => before[i] === null && (value.accounts?.[i]?.lamports ?? 0) > 0)
+    .map((key) => key.toBase58());
+  const relayerPays = getRelayerKeypair()?.publicKey.equals(message.staticAccountKeys[0]) ?? false;
+
+  return {
+    simulated: true,
+    success: value.err === null,
+    error: value.err,
+    errorCode: value.err ? classifyTransactionError(value.err, value.logs, relayerPays).code : null,
+    programError: decodeProgramError(value.err, transaction, accountKeys),
+    unitsConsumed: value.unitsConsumed ?? null,
+    accountsCreated,
+    logs: value.logs ?? [],
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * Submission tracking for relayed transactions. Every transaction the relay routes send is recorded
+ * (submissions table) before it goes out, and GET /tx/:id reports it by id or by any signature.
+ *
+ * The tracker polls unsettled submissions until they are finalized, failed or expired. While a
+ * blockhash is valid the signed bytes are resent as-is. Once it expires, a relayer-signed withdraw
+ * is rebuilt with a fresh blockhash and sent again, for as long as its proof root is still in the
+ * on-chain root history (and up to SUBMISSION_MAX_ATTEMPTS blockhashes). Each rebuild is simulated
+ * and re-priced like a new withdraw: one that now fails or whose fee no longer covers the relayer's
+ * cost is marked failed instead of sent. Client-signed deposits cannot be re-signed and expire with
+ * their blockhash.
+ *
+ * Failures are stored as the fixed message and code of ../solana/programErrors.ts; the RPC's own
+ * text only goes to the server log.
+ *
+ * Only the holder of the `submissions` lease runs a pass. A pass can outlive the lease, so each
+ * re-sign is also claimed with a compare-and-set on the row's attempts before it is sent: two
+ * replicas never both pay for a copy of the same submission.
+ */
+import { randomUUID } from 'crypto';
+import bs58 from 'bs58';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  SignatureStatus,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { config } from '../config/env.js';
+import { getStore, SubmissionKind, SubmissionRecord, SubmissionStatus, SubmissionUpdate } from '../db/index.js';
+import { chunk } from '../lib/batch.js';
+import { getMintFromToken } from '../lib/mints.js';
+import { holderId } from '../indexer/lease.js';
+import { getConnection, getRelayerKeypair } from '../solana/connection.js';
+import { fetchRootHistory, getRootAge } from '../solana/contract.js';
+import {
+  decodeTransact,
+  TRANSACT_ACCOUNT_NULLIFIER0,
+  TRANSACT_ACCOUNT_NULLIFIER1,
+  TRANSACT_ACCOUNT_TREE,
+} from '../solana/instructions.js';
+import { classifyRelayError, classifyTransactionError, RelayFailure } from '../solana/programErrors.js';
+import { computeBudgetInstructions, sizeComputeBudget } from './computeBudget.js';
+import { checkRelayerFee } from './quote.js';
+
+const LEASE_NAME = 'submissions';
+const PENDING_BATCH_SIZE = 100;
+/** getSignatureStatuses accepts at most 256 signatures per call */
+const STATUS_BATCH_SIZE = 256;
+const SEND_OPTIONS = { skipPreflight: false, preflightCommitment: 'confirmed', maxRetries: 3 } as const;
+
+export interface RelayedSubmission {
+  submissionId: string;
+  signature: string;
+}
+
+type SubmissionFailure = Pick<RelayFailure, 'code' | 'error' | 'reason'>;
+
+const SEND_FAILED: SubmissionFailure = { code: 'SEND_FAILED', error: 'The RPC rejected the transaction' };
+
+/** Raw RPC text, for the server log only */
+function errorMessage(e: unknown): string {
+  const err = e as { message?: string; transactionMessage?: string };
+  return err.transactionMessage ?? err.message ?? String(e);
+}
+
+function failed(status: SubmissionStatus, failure: SubmissionFailure): SubmissionUpdate {
+  return { status, error: failure.error, error_code: failure.code, error_reason: failure.reason ?? null };
+}
+
+/**
+ * Record `transaction` (already signed) and send it. A send the RPC rejects is recorded as failed
+ * and rethrown. `root` is the withdraw's proof root; `relayerSigned` lets the tracker re-sign it.
+ */
+export async function relayTransaction(
+  transaction: VersionedTransaction,
+  submission: { kind: SubmissionKind; token: string | null; root?: string; relayerSigned: boolean }
+): Promise<RelayedSubmission> {
+  const store = getStore();
+  const submissionId = randomUUID();
+  const signature = bs58.encode(transaction.signatures[0]);
+  await store.createSubmission({
+    id: submissionId,
+    kind: submission.kind,
+    token: submission.token,
+    signature,
+    raw_transaction: Buffer.from(transaction.serialize()).toString('base64'),
+    blockhash: transaction.message.recentBlockhash,
+    relayer_signed: submission.relayerSigned,
+    root: submission.root ?? null,
+  });
+  try {
+    await getConnection().sendTransaction(transaction, SEND_OPTIONS);
+  } catch (e) {
+    console.warn(`Submission tracker: ${submissionId} send failed:`, errorMessage(e));
+    await store
+      .updateSubmission(submissionId, failed('failed', classifyRelayError(e, submission.relayerSigned) ?? SEND_FAILED))
+      .catch((err) => console.error('Submission tracker: failed to record send error:', err));
+    throw e;
+  }
+  return { submissionId, signature };
+}
+
+/** Why a submission whose blockhash expired cannot be sent again, or null when it can be re-signed */
+async function cannotResend(submission: SubmissionRecord): Promise<SubmissionFailure | null> {
+  if (!submission.relayer_signed) {
+    return { code: 'BLOCKHASH_EXPIRED', error: 'Blockhash expired before the transaction landed' };
+  }
+  if (submission.attempts >= config.submissionMaxAttempts) {
+    return { code: 'NOT_LANDED', error: `Not landed after ${submission.attempts} blockhashes` };
+  }
+  if (!getRelayerKeypair()) return { code: 'RELAYER_UNAVAILABLE', error: 'Relayer keypair not configured' };
+  if (submission.root) {
+    const treeMint = submission.token ? getMintFromToken(submission.token) : undefined;
+    const history = await fetchRootHistory(treeMint, 'confirmed');
+    if (!history || getRootAge(history, submission.root) < 0) {
+      return { code: 'UNKNOWN_ROOT', error: 'Proof root is no longer in the on-chain root history' };
+    }
+  }
+  return null;
+}
+
+/**
+ * The withdraw in `raw` rebuilt at `blockhash`, with its compute budget sized by a fresh simulation
+ * and priced now, and signed by the relayer. A failure instead when the simulation fails or the
+ * withdraw's fee no longer covers the relayer's cost.
+ */
+async function rebuildWithdraw(
+  submission: SubmissionRecord,
+  raw: Buffer,
+  blockhash: string
+): Promise<{ transaction: VersionedTransaction } | { failure: SubmissionFailure }> {
+  const connection = getConnection();
+  const relayer = getRelayerKeypair()!;
+  const { message } = VersionedTransaction.deserialize(raw);
+  const lookupTables: AddressLookupTableAccount[] = [];
+  for (const lookup of message.addressTableLookups) {
+    const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!value) throw new Error(`Address lookup table ${lookup.accountKey.toBase58()} not found`);
+    lookupTables.push(value);
+  }
+  const instructions = TransactionMessage.decompile(message, { addressLookupTableAccounts: lookupTables }).instructions.filter(
+    (ix) => !ix.programId.equals(ComputeBudgetProgram.programId)
+  );
+  const withdrawIx = instructions.find((ix) => ix.programId.equals(config.programId));
+  const withdraw = withdrawIx ? decodeTransact(withdrawIx.data) : null;
+  if (!withdrawIx || !withdraw) throw new Error('Transaction holds no transact instruction');
+
+  const simulated = await sizeComputeBudget(relayer.publicKey, instructions, lookupTables, [
+    withdrawIx.keys[TRANSACT_ACCOUNT_TREE].pubkey,
+    withdrawIx.keys[TRANSACT_ACCOUNT_NULLIFIER0].pubkey,
+    withdrawIx.keys[TRANSACT_ACCOUNT_NULLIFIER1].pubkey,
+  ]);
+  if (simulated.error) {
+    console.warn(`Submission tracker: ${submission.id} no longer simulates:`, JSON.stringify(simulated.error), simulated.logs);
+    return { failure: classifyTransactionError(simulated.error, simulated.logs, true) };
+  }
+  // An SPL withdraw may create the recipient's token account; the relayer pays its rent unless it exists by now
+  const createsRecipientAta = instructions.find(
+    (ix) => ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) && !ix.keys[2]?.pubkey.equals(relayer.publicKey)
+  );
+  const recipientAtaExists =
+    !createsRecipientAta || (await connection.getAccountInfo(createsRecipientAta.keys[1].pubkey)) !== null;
+  const underpaid = await checkRelayerFee(
+    submission.token ?? 'sol',
+    withdraw.fee,
+    recipientAtaExists,
+    undefined,
+    simulated.budget
+  );
+  if (underpaid) return { failure: { code: underpaid.code, error: underpaid.error } };
+
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: relayer.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [...computeBudgetInstructions(simulated.budget), ...instructions],
+    }).compileToV0Message(lookupTables)
+  );
+  transaction.sign([relayer]);
+  return { transaction };
+}
+
+async function advance(submission: SubmissionRecord, statuses: Map<string, SignatureStatus | null>): Promise<void> {
+  const store = getStore();
+  const connection = getConnection();
+  const landed = submission.signatures.find((signature) => statuses.get(signature));
+  if (landed) {
+    const status = statuses.get(landed)!;
+    if (status.err) {
+      console.warn(`Submission tracker: ${submission.id} landed with an error:`, JSON.stringify(status.err));
+      await store.updateSubmission(submission.id, {
+        ...failed('failed', classifyTransactionError(status.err, null, submission.relayer_signed)),
+        signature: landed,
+        slot: status.slot,
+      });
+    } else if (status.confirmationStatus === 'finalized') {
+      await store.updateSubmission(submission.id, { status: 'finalized', signature: landed, slot: status.slot });
+    } else if (status.confirmationStatus === 'confirmed' && submission.status !== 'confirmed') {
+      await store.updateSubmission(submission.id, { status: 'confirmed', signature: landed, slot: status.slot });
+    }
+    return;
+  }
+
+  // Not (or no longer, after a dropped fork) in the ledger
+  const raw = Buffer.from(submission.raw_transaction, 'base64');
+  const { value: blockhashValid } = await connection.isBlockhashValid(submission.blockhash, { commitment: 'confirmed' });
+  if (blockhashValid) {
+    await connection
+      .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+      .catch((e) => console.warn(`Submission tracker: ${submission.id} resend failed:`, errorMessage(e)));
+    return;
+  }
+  // It may have landed just before the blockhash expired
+  const { value: recheck } = await connection.getSignatureStatuses(submission.signatures, { searchTransactionHistory: true });
+  if (recheck.some(Boolean)) return;
+
+  const expired = await cannotResend(submission);
+  if (expired) {
+    await store.updateSubmission(submission.id, failed('expired', expired));
+    return;
+  }
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const rebuilt = await rebuildWithdraw(submission, raw, blockhash);
+  if ('failure' in rebuilt) {
+    await store.updateSubmission(submission.id, failed('failed', rebuilt.failure));
+    return;
+  }
+  const { transaction } = rebuilt;
+  const signature = bs58.encode(transaction.signatures[0]);
+  // Claim the row before sending, so a process that lost the lease mid-pass cannot re-sign it too
+  const claimed = await store.resendSubmission(
+    submission.id,
+    submission.attempts,
+    signature,
+    Buffer.from(transaction.serialize()).toString('base64'),
+    blockhash
+  );
+  if (!claimed) return;
+  try {
+    await connection.sendTransaction(transaction, SEND_OPTIONS);
+  } catch (e) {
+    console.warn(`Submission tracker: ${submission.id} rebroadcast failed:`, errorMessage(e));
+    await store.updateSubmission(submission.id, failed('failed', classifyRelayError(e, true) ?? SEND_FAILED));
+    return;
+  }
+  console.log(`Submission tracker: ${submission.id} rebroadcast as ${signature} (attempt ${submission.attempts + 1})`);
+}
+
+/** One pass over unsettled submissions */
+export async function trackSubmissions(): Promise<void> {
+  const pending = await getStore().pendingSubmissions(PENDING_BATCH_SIZE);
+  if (pending.length === 0) return;
+  const connection = getConnection();
+  const statuses = new Map<string, SignatureStatus | null>();
+  for (const batch of chunk(pending.flatMap((s) => s.signatures), STATUS_BATCH_SIZE)) {
+    const { value } = await connection.getSignatureStatuses(batch, { searchTransactionHistory: true });
+    batch.forEach((signature, i) => statuses.set(signature, value[i]));
+  }
+  for (const submission of pending) {
+    await advance(submission, statuses).catch((e) =>
+      console.error(`Submission tracker: ${submission.id} failed:`, e instanceof Error ? e.message : e)
+    );
+  }
+}
+
+export function startSubmissionTracker(): () => void {
+  if (config.submissionPollIntervalMs <= 0) return () => {};
+  let running = false;
+  const run = async (): Promise<void> => {
+    if (running) return;
+    running = true;
+    try {
+      if (await getStore().acquireLease(LEASE_NAME, holderId, config.indexerLeaseTtlMs)) await trackSubmissions();
+    } catch (e) {
+      console.error('Submission tracker error:', e);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(run, config.submissionPollIntervalMs);
+  return () => clearInterval(timer);
+}
@@ -1,10 +1,15 @@
 /**
- * SOL deposit relay. Client builds and signs deposit tx; API submits to chain.
+ * SOL deposit relay. Client builds and signs deposit tx; API submits to chain once it checks out
+ * as a Shade deposit by senderAddress (../solana/depositChecks.ts).
+ * With ?simulate=true the tx is simulated instead (../relayer/simulate.ts) and never sent.
  */
 import { Router } from 'express';
-import { VersionedTransaction } from '@solana/web3.js';
-import { getConnection } from '../solana/connection.js';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
 import { isValidBase64, isValidSolanaAddress } from '../lib/validators.js';
+import { relayTransaction } from '../relayer/submissions.js';
+import { simulateRelay } from '../relayer/simulate.js';
+import { checkDeposit } from '../solana/depositChecks.js';
+import { classifyRelayError } from '../solana/programErrors.js';
 
 const router = Router();
 const MAX_TX_SIZE = 1232;
@@ -31,19 +36,30 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ error: 'Invalid sender address' });
     }
 
-    const connection = getConnection();
-    const txBuffer = Buffer.from(signedTransaction, 'base64');
-    const transaction = VersionedTransaction.deserialize(txBuffer);
+    let transaction: VersionedTransaction;
+    try {
+      transaction = VersionedTransaction.deserialize(Buffer.from(signedTransaction, 'base64'));
+    } catch {
+      return res.status(400).json({ error: 'Invalid transaction' });
+    }
+    const rejected = await checkDeposit(transaction, { sender: new PublicKey(senderAddress) });
+    if (rejected) return res.status(400).json(rejected);
+    if (req.query.simulate === 'true') return res.json(await simulateRelay(transaction));
 
-    const signature = await connection.sendTransaction(transaction, {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
-      maxRetries: 3,
+    const { submissionId, signature } = await relayTransaction(transaction, {
+      kind: 'deposit',
+      token: 'sol',
+      relayerSigned: false,
     });
 
-    return res.json({ signature, success: true });
+    return res.json({ signature, submissionId, success: true });
   } catch (error: unknown) {
     console.error('Deposit relay error:', error);
+    const failure = classifyRelayError(error, false);
+    if (failure) {
+      const { status, ...body } = failure;
+      return res.status(status).json(body);
+    }
     return res.status(500).json({ error: 'Failed to relay deposit' });
   }
 });
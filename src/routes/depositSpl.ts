@@ -1,8 +1,11 @@
 import { Router } from 'express';
-import { VersionedTransaction } from '@solana/web3.js';
-import { getConnection } from '../solana/connection.js';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { getTokenFromMint } from '../lib/mints.js';
 import { isValidBase64, isValidSolanaAddress } from '../lib/validators.js';
-import { send } from 'process';
+import { relayTransaction } from '../relayer/submissions.js';
+import { simulateRelay } from '../relayer/simulate.js';
+import { checkDeposit } from '../solana/depositChecks.js';
+import { classifyRelayError } from '../solana/programErrors.js';
 
 const router = Router();
 const MAX_TX_SIZE = 1232;
@@ -30,19 +33,34 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ error: 'Invalid address' });
     }
 
-    const connection = getConnection();
-    const txBuffer = Buffer.from(signedTransaction, 'base64');
-    const transaction = VersionedTransaction.deserialize(txBuffer);
+    const mint = new PublicKey(mintAddress);
+    const token = getTokenFromMint(mint);
+    if (!token) return res.status(400).json({ error: 'Unsupported token or mint' });
 
-    const signature = await connection.sendTransaction(transaction, {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
-      maxRetries: 3,
+    let transaction: VersionedTransaction;
+    try {
+      transaction = VersionedTransaction.deserialize(Buffer.from(signedTransaction, 'base64'));
+    } catch {
+      return res.status(400).json({ error: 'Invalid transaction' });
+    }
+    const rejected = await checkDeposit(transaction, { sender: new PublicKey(senderAddress), mint });
+    if (rejected) return res.status(400).json(rejected);
+    if (req.query.simulate === 'true') return res.json(await simulateRelay(transaction));
+
+    const { submissionId, signature } = await relayTransaction(transaction, {
+      kind: 'deposit_spl',
+      token,
+      relayerSigned: false,
     });
 
-    return res.json({ signature, success: true });
+    return res.json({ signature, submissionId, success: true });
   } catch (error: unknown) {
     console.error('Deposit SPL relay error:', error);
+    const failure = classifyRelayError(error, false);
+    if (failure) {
+      const { status, ...body } = failure;
+      return res.status(status).json(body);
+    }
     return res.status(500).json({ error: 'Failed to relay deposit' });
   }
 });
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { getIndexerStatus } from '../indexer/status.js';
+
+const router = Router();
+
+router.get('/status', async (_req, res) => {
+  try {
+    res.json(await getIndexerStatus());
+  } catch (error) {
+    console.error('Indexer status error:', error);
+    res.status(500).json({ error: 'Failed to get indexer status' });
+  }
+});
+
+export default router;
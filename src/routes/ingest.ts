@@ -0,0 +1,69 @@
+/**
+ * Transaction webhooks from the RPC provider (INGEST_MODES includes webhook). Mounted ahead of the
+ * JSON body parser and the general rate limiter: authentication needs the raw body, and provider
+ * deliveries come in bursts from a few IPs. Only the process holding the indexer lease writes them;
+ * any other answers 503 and the provider redelivers.
+ */
+import express, { Router } from 'express';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config/env.js';
+import { holdsLease } from '../indexer/lease.js';
+import { ingestWebhookTransactions, parseWebhookPayload, WebhookPayloadError } from '../indexer/webhook.js';
+
+const router = Router();
+
+const WEBHOOK_BODY_LIMIT = '5mb';
+
+/** Constant-time string comparison (hashing first so lengths never leak). */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (s: string) => createHash('sha256').update(s).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Either X-Shade-Signature: [sha256=]hex(HMAC-SHA256(secret, raw body)), or the secret itself in
+ * Authorization (providers that only support a static auth header, e.g. Helius authHeader).
+ */
+function isAuthorized(req: express.Request, rawBody: Buffer): boolean {
+  const secret = config.ingestWebhookSecret;
+  if (!secret) return false;
+  const signature = req.get('x-shade-signature');
+  if (signature) {
+    const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+    return safeEqual(signature.replace(/^sha256=/, '').toLowerCase(), expected);
+  }
+  const authorization = req.get('authorization');
+  return authorization !== undefined && safeEqual(authorization, secret);
+}
+
+router.post('/webhook', express.raw({ type: () => true, limit: WEBHOOK_BODY_LIMIT }), async (req, res) => {
+  if (!config.ingestModes.includes('webhook')) {
+    return res.status(404).json({ error: 'Webhook ingestion is disabled' });
+  }
+  const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (!isAuthorized(req, rawBody)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  let transactions;
+  try {
+    transactions = parseWebhookPayload(JSON.parse(rawBody.toString('utf-8')));
+  } catch (error) {
+    const message = error instanceof WebhookPayloadError ? error.message : 'Invalid JSON body';
+    return res.status(400).json({ error: message });
+  }
+  if (!holdsLease()) {
+    return res.status(503).json({ error: 'This process does not hold the indexer lease, retry later', code: 'NOT_LEASE_HOLDER' });
+  }
+
+  try {
+    const result = await ingestWebhookTransactions(transactions);
+    res.json(result);
+  } catch (error) {
+    // Non-2xx makes the provider redeliver; indexing is idempotent
+    console.error('Webhook ingest error:', error);
+    res.status(503).json({ error: 'Failed to index transactions, retry later' });
+  }
+});
+
+export default router;
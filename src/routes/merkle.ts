@@ -1,86 +1,98 @@
-import { Router, Request } from 'express';
-import { PublicKey } from '@solana/web3.js';
-import { fetchMerkleTreeState } from '../solana/contract.js';
-import { getDb } from '../db/index.js';
+import { Router, Request, Response } from 'express';
+import { fetchMerkleTreeState, fetchRootHistory, getRootAge } from '../solana/contract.js';
+import { getStore, CommitmentLevel, visibleStatuses } from '../db/index.js';
 import { config } from '../config/env.js';
 import { createCache } from '../lib/cache.js';
-import { sanitizeToken, isValidCommitment } from '../lib/validators.js';
+import { CACHE_REVALIDATE, sendJson } from '../lib/httpCache.js';
+import { sanitizeToken, sanitizeCommitmentLevel, isValidCommitment } from '../lib/validators.js';
+import { MERKLE_DEPTH } from '../lib/merkleTree.js';
+import { syncTree, resetTree } from '../merkle/index.js';
+import { verifyTree } from '../merkle/verify.js';
+import { getMintFromToken } from '../lib/mints.js';
 
 const router = Router();
 // Use 0 TTL so every deposit gets the current on-chain root (prevents UnknownRoot after tree updates)
 const merkleRootCache = createCache<{ root: string; nextIndex: number; subtrees: string[] }>(config.merkleCacheTtlMs);
 
-const DEVNET_MINTS: Record<string, string> = {
-  sol: '11111111111111111111111111111112',
-  usdc: 'DWvrXGqTYq1SW9ey857z1nXBxSxihwxdFyQfaRunsAXa',
-  usdt: 'EcFc2cMyZxaKBkFK1XooxiyDyCPneLXiMwSJiVY6eTad',
-  yesa: 'EwtK6Bydxsm4vAvvMiEG3ymtkJ7WToRpQdeV45wB1Qpa',
-  zec: 'Vu3Lcx3chdCHmy9KCCdd19DdJsLejHAZxm1E1bTgE16',
-  ore: '6zxkY8UygHKBf64LJDXnzcYr9wdvyqScmj7oGPBFw58Z',
-  store: '5MvqBFU5zeHaEfRuAFW2RhqidHLb7Ejsa6sUwPQQXcj1',
-};
-const MAINNET_MINTS: Record<string, string> = {
-  sol: '11111111111111111111111111111112',
-  usdc: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-  usdt: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
-  yesa: 'USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB',
-  zec: 'A7bdiYdS5GjqGFtxf17ppRHtDKPkkRqbKtR27dxvQXaS',
-  ore: 'oreoU2P8bN6jkk3jbaiVxYnG1dCXcYxwhwyK9jSybcp',
-  store: 'sTorERYB6xAZ1SSbwpK3zoK2EEwbBrc7TZAzg1uCGiH',
-};
-
-const MINT_BY_TOKEN = config.isDevnet ? DEVNET_MINTS : MAINNET_MINTS;
-
-function getMintFromToken(token?: string): PublicKey | undefined {
-  if (!token || token === 'sol') return undefined;
-  const mintStr = MINT_BY_TOKEN[token];
-  if (!mintStr) return undefined;
-  return new PublicKey(mintStr);
+interface ProofResult {
+  status: number;
+  body: Record<string, unknown>;
 }
 
-const MERKLE_DEPTH = 26;
-
-/** Build path (pathElements, pathIndices) for a leaf at leafIndex from DB commitments. Missing siblings returned as '0'. */
-async function getPathForLeafIndex(
-  db: ReturnType<typeof getDb>,
-  token: string,
-  leafIndex: number
-): Promise<{ pathElements: string[]; pathIndices: number[] }> {
-  const siblingIndices: number[] = [];
-  let index = leafIndex;
-  for (let level = 0; level < MERKLE_DEPTH; level++) {
-    siblingIndices.push(index ^ 1);
-    index = Math.floor(index / 2);
+/**
+ * Path for leafIndex from the server-side tree, plus the root it hashes to. When the indexed tree
+ * has caught up with the chain its root must equal the on-chain root; otherwise the proof is for
+ * an older root (still valid while it remains in the program's root history). At level 'finalized'
+ * the tree holds finalized leaves only and is compared with the account as of the finalized slot.
+ */
+async function buildProof(token: string, leafIndex: number, level: CommitmentLevel): Promise<ProofResult> {
+  const [tree, state] = await Promise.all([
+    syncTree(token, level),
+    fetchMerkleTreeState(getMintFromToken(token), level),
+  ]);
+  if (state === null) {
+    return {
+      status: 404,
+      body: { error: 'Merkle tree not initialized for this token', code: 'TREE_NOT_INITIALIZED', token },
+    };
   }
-  const { data: siblings } = await db
-    .from('commitments')
-    .select('commitment_index, commitment')
-    .eq('token', token)
-    .in('commitment_index', siblingIndices);
-  const byIndex = new Map<number, string>();
-  for (const s of siblings ?? []) {
-    byIndex.set(Number(s.commitment_index), s.commitment);
+  if (leafIndex >= tree.size()) {
+    return {
+      status: 404,
+      body: {
+        error: 'Leaf not yet in indexed tree',
+        hint: 'Indexer may not have indexed this deposit (or an earlier one) yet; retry shortly.',
+        indexedSize: tree.size(),
+        nextIndex: state.nextIndex,
+      },
+    };
   }
-  index = leafIndex;
-  const pathElements: string[] = [];
-  const pathIndices: number[] = [];
-  for (let level = 0; level < MERKLE_DEPTH; level++) {
-    const siblingIndex = index ^ 1;
-    pathIndices.push(index % 2);
-    pathElements.push(byIndex.get(siblingIndex) ?? '0');
-    index = Math.floor(index / 2);
+  const root = tree.root().toString();
+  const synced = tree.size() === state.nextIndex;
+  if (synced && root !== state.root) {
+    console.error(`Merkle proof [${token}]: indexed root ${root} != on-chain root ${state.root} at size ${tree.size()}`);
+    // Rebuild from the DB on the next request in case the in-memory tree holds stale leaves
+    resetTree(token);
+    return {
+      status: 409,
+      body: { error: 'Indexed tree does not match on-chain root', code: 'TREE_ROOT_MISMATCH', token },
+    };
   }
-  return { pathElements, pathIndices };
+  const { pathElements, pathIndices } = tree.path(leafIndex);
+  return {
+    status: 200,
+    body: {
+      leafIndex,
+      pathElements,
+      pathIndices,
+      root,
+      treeSize: tree.size(),
+      nextIndex: state.nextIndex,
+      onChainRoot: state.root,
+      synced,
+      commitment: level,
+    },
+  };
 }
 
-router.get('/root', async (req: Request<object, object, object, { token?: string }>, res) => {
+/**
+ * A proof changes whenever a leaf is added to its subtree, so it is never immutable; the ETag lets
+ * clients and CDNs revalidate an unchanged proof without downloading it again.
+ */
+function sendProof(res: Response, result: ProofResult): void {
+  if (result.status === 200) sendJson(res, result.body, CACHE_REVALIDATE);
+  else res.status(result.status).json(result.body);
+}
+
+router.get('/root', async (req: Request<object, object, object, { token?: string; commitment?: string }>, res) => {
   try {
     const token = sanitizeToken(req.query.token);
-    const cacheKey = `root:${token}`;
+    const level = sanitizeCommitmentLevel(req.query.commitment);
+    const cacheKey = `root:${token}:${level}`;
     let data = merkleRootCache.get(cacheKey);
     if (!data) {
       const mint = getMintFromToken(token);
-      const state = await fetchMerkleTreeState(mint);
+      const state = await fetchMerkleTreeState(mint, level);
       if (state === null) {
         // SPL tree not initialized (account doesn't exist); SOL tree always expected to exist
         if (mint) {
@@ -103,68 +115,113 @@ router.get('/root', async (req: Request<object, object, object, { token?: string
   }
 });
 
-/** GET /merkle/path?token=sol&leafIndex=5 — path for leaf index. Returns commitments + nextIndex so the client can build the path with correct internal nodes (same Poseidon/zeros as circuit). */
-router.get('/path', async (req: Request<object, object, object, { token?: string; leafIndex?: string }>, res) => {
+/** GET /merkle/roots?token=sol — on-chain root history, newest first; age = insertions since that root was current. */
+router.get('/roots', async (req: Request<object, object, object, { token?: string; commitment?: string }>, res) => {
   try {
     const token = sanitizeToken(req.query.token);
-    const leafIndexRaw = req.query.leafIndex;
-    const leafIndex = typeof leafIndexRaw === 'string' ? parseInt(leafIndexRaw, 10) : NaN;
-    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= 2 ** MERKLE_DEPTH) {
-      return res.status(400).json({ error: 'Invalid leafIndex; use 0 to ' + (2 ** MERKLE_DEPTH - 1) });
-    }
-    const db = getDb();
-    const rootData = await fetchMerkleTreeState(getMintFromToken(token));
-    if (rootData === null) {
+    const level = sanitizeCommitmentLevel(req.query.commitment);
+    const history = await fetchRootHistory(getMintFromToken(token), level);
+    if (history === null) {
       return res.status(404).json({
         error: 'Merkle tree not initialized for this token',
         code: 'TREE_NOT_INITIALIZED',
         token,
       });
     }
-    const { data: commitmentsRows } = await db
-      .from('commitments')
-      .select('commitment_index, commitment')
-      .eq('token', token)
-      .order('commitment_index', { ascending: true });
-    const commitments = (commitmentsRows ?? []).map((r) => ({
-      commitment_index: Number(r.commitment_index),
-      commitment: r.commitment as string,
-    }));
-    const hasLeaf = commitments.some((c) => c.commitment_index === leafIndex);
-    if (!hasLeaf) {
-      return res.status(404).json({
-        error: 'No commitment at this leaf index',
-        hint: 'Indexer may not have indexed this deposit yet, or leafIndex is wrong.',
-      });
-    }
     res.json({
-      root: rootData.root,
-      nextIndex: rootData.nextIndex,
-      commitments,
+      token,
+      nextIndex: history.nextIndex,
+      rootIndex: history.rootIndex,
+      historySize: history.historySize,
+      roots: history.roots.map((root, age) => ({
+        root,
+        age,
+        remainingInsertions: history.historySize - 1 - age,
+      })),
     });
+  } catch (error) {
+    console.error('Merkle roots error:', error);
+    res.status(500).json({ error: 'Failed to fetch root history' });
+  }
+});
+
+/** GET /merkle/roots/:root/known?token=sol — whether is_known_root() still accepts root, and for how many more insertions. */
+router.get(
+  '/roots/:root/known',
+  async (req: Request<{ root: string }, object, object, { token?: string; commitment?: string }>, res) => {
+    try {
+      const { root } = req.params;
+      const token = sanitizeToken(req.query.token);
+      const level = sanitizeCommitmentLevel(req.query.commitment);
+      if (!isValidCommitment(root)) {
+        return res.status(400).json({ error: 'Invalid root' });
+      }
+      const history = await fetchRootHistory(getMintFromToken(token), level);
+      if (history === null) {
+        return res.status(404).json({
+          error: 'Merkle tree not initialized for this token',
+          code: 'TREE_NOT_INITIALIZED',
+          token,
+        });
+      }
+      const age = getRootAge(history, root);
+      if (age < 0) {
+        return res.json({ root, known: false, nextIndex: history.nextIndex });
+      }
+      res.json({
+        root,
+        known: true,
+        age,
+        remainingInsertions: history.historySize - 1 - age,
+        nextIndex: history.nextIndex,
+      });
+    } catch (error) {
+      console.error('Merkle known root error:', error);
+      res.status(500).json({ error: 'Failed to check root' });
+    }
+  }
+);
+
+/** GET /merkle/verify?token=sol — DB gaps/duplicates/out-of-field rows and recomputed root vs on-chain root and subtrees. */
+router.get('/verify', async (req: Request<object, object, object, { token?: string; commitment?: string }>, res) => {
+  try {
+    const token = sanitizeToken(req.query.token);
+    const report = await verifyTree(token, sanitizeCommitmentLevel(req.query.commitment));
+    res.json(report);
+  } catch (error) {
+    console.error('Merkle verify error:', error);
+    res.status(500).json({ error: 'Failed to verify merkle tree' });
+  }
+});
+
+/** GET /merkle/path?token=sol&leafIndex=5 — pathElements/pathIndices for a leaf index and the root they hash to. */
+router.get('/path', async (req: Request<object, object, object, { token?: string; leafIndex?: string; commitment?: string }>, res) => {
+  try {
+    const token = sanitizeToken(req.query.token);
+    const leafIndexRaw = req.query.leafIndex;
+    const leafIndex = typeof leafIndexRaw === 'string' ? parseInt(leafIndexRaw, 10) : NaN;
+    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= 2 ** MERKLE_DEPTH) {
+      return res.status(400).json({ error: 'Invalid leafIndex; use 0 to ' + (2 ** MERKLE_DEPTH - 1) });
+    }
+    const result = await buildProof(token, leafIndex, sanitizeCommitmentLevel(req.query.commitment));
+    sendProof(res, result);
   } catch (error) {
     console.error('Merkle path error:', error);
     res.status(500).json({ error: 'Failed to fetch merkle path' });
   }
 });
 
-router.get('/proof/:commitment', async (req: Request<{ commitment: string }, object, object, { token?: string }>, res) => {
+router.get('/proof/:commitment', async (req: Request<{ commitment: string }, object, object, { token?: string; commitment?: string }>, res) => {
   try {
     const { commitment } = req.params;
     const token = sanitizeToken(req.query.token);
+    const level = sanitizeCommitmentLevel(req.query.commitment);
 
     if (!isValidCommitment(commitment)) {
       return res.status(400).json({ error: 'Invalid commitment' });
     }
 
-    const db = getDb();
-
-    const { data: commitmentRow } = await db
-      .from('commitments')
-      .select('commitment_index')
-      .eq('commitment', commitment)
-      .eq('token', token)
-      .maybeSingle();
+    const commitmentRow = await getStore().findCommitment(token, commitment, visibleStatuses(level));
 
     if (!commitmentRow) {
       return res.status(404).json({
@@ -173,32 +230,8 @@ router.get('/proof/:commitment', async (req: Request<{ commitment: string }, obj
       });
     }
 
-    const leafIndex = Number(commitmentRow.commitment_index);
-    const rootData = await fetchMerkleTreeState(getMintFromToken(token));
-    if (rootData === null) {
-      return res.status(404).json({
-        error: 'Merkle tree not initialized for this token',
-        code: 'TREE_NOT_INITIALIZED',
-        token,
-      });
-    }
-
-    const { data: commitmentsRows } = await db
-      .from('commitments')
-      .select('commitment_index, commitment')
-      .eq('token', token)
-      .order('commitment_index', { ascending: true });
-    const commitments = (commitmentsRows ?? []).map((r) => ({
-      commitment_index: Number(r.commitment_index),
-      commitment: r.commitment as string,
-    }));
-
-    res.json({
-      leafIndex,
-      root: rootData.root,
-      nextIndex: rootData.nextIndex,
-      commitments,
-    });
+    const result = await buildProof(token, commitmentRow.commitment_index, level);
+    sendProof(res, result);
   } catch (error) {
     console.error('Merkle proof error:', error);
     res.status(500).json({ error: 'Failed to fetch merkle proof' });
@@ -0,0 +1,123 @@
+/**
+ * Spent-note lookup. Nullifiers are checked against the indexed nullifiers table first; anything the
+ * index does not know is checked on chain (a nullifier is spent iff its nullifier0 or nullifier1
+ * PDA exists), so a lagging indexer never reports a spent note as unspent.
+ */
+import { Router } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import { getStore, NullifierRecord } from '../db/index.js';
+import { chunk } from '../lib/batch.js';
+import { FIELD_SIZE } from '../lib/field.js';
+import { isValidCommitment, isValidSolanaAddress } from '../lib/validators.js';
+import { getConnection } from '../solana/connection.js';
+import { getNullifierPDA } from '../solana/contract.js';
+import { decimalToBytes32 } from '../solana/instructions.js';
+
+const router = Router();
+
+const MAX_CHECK_BATCH = 500;
+/** Keeps PostgREST `in` filters well under URL length limits */
+const DB_CHUNK_SIZE = 100;
+/** getMultipleAccountsInfo accepts at most 100 keys */
+const RPC_CHUNK_SIZE = 100;
+
+interface CheckResult {
+  spent: boolean;
+  source: 'index' | 'chain';
+  status?: string;
+  transactionSignature?: string | null;
+}
+
+async function lookupIndexed(column: 'nullifier' | 'nullifier_pda', values: string[]): Promise<NullifierRecord[]> {
+  const store = getStore();
+  const rows: NullifierRecord[] = [];
+  for (const part of chunk(values, DB_CHUNK_SIZE)) {
+    rows.push(...(await store.findNullifiers(column, part)));
+  }
+  return rows;
+}
+
+/** Which of the given accounts exist on chain. */
+async function existingAccounts(pdas: PublicKey[]): Promise<Set<string>> {
+  const connection = getConnection();
+  const existing = new Set<string>();
+  for (const part of chunk(pdas, RPC_CHUNK_SIZE)) {
+    const infos = await connection.getMultipleAccountsInfo(part);
+    infos.forEach((info, i) => {
+      if (info) existing.add(part[i].toBase58());
+    });
+  }
+  return existing;
+}
+
+router.post('/check', async (req, res) => {
+  try {
+    if (typeof req.body !== 'object' || req.body === null || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Invalid request body' });
+    }
+    const { nullifiers = [], nullifierPDAs = [] } = req.body as { nullifiers?: unknown; nullifierPDAs?: unknown };
+    if (!Array.isArray(nullifiers) || !Array.isArray(nullifierPDAs)) {
+      return res.status(400).json({ error: 'nullifiers and nullifierPDAs must be arrays' });
+    }
+    if (nullifiers.length + nullifierPDAs.length === 0) {
+      return res.status(400).json({ error: 'Provide nullifiers and/or nullifierPDAs' });
+    }
+    if (nullifiers.length + nullifierPDAs.length > MAX_CHECK_BATCH) {
+      return res.status(400).json({ error: `Maximum ${MAX_CHECK_BATCH} items per request` });
+    }
+    if (!nullifiers.every((n) => isValidCommitment(n) && BigInt(n as string) < FIELD_SIZE)) {
+      return res.status(400).json({ error: 'Invalid nullifier (expected decimal field element)' });
+    }
+    if (!nullifierPDAs.every((p) => isValidSolanaAddress(p))) {
+      return res.status(400).json({ error: 'Invalid nullifier PDA' });
+    }
+    const values = (nullifiers as string[]).map((n) => BigInt(n).toString(10));
+    const pdas = nullifierPDAs as string[];
+
+    const [byValueRows, byPdaRows] = await Promise.all([
+      values.length ? lookupIndexed('nullifier', values) : Promise.resolve([]),
+      pdas.length ? lookupIndexed('nullifier_pda', pdas) : Promise.resolve([]),
+    ]);
+    const byValue = new Map(byValueRows.map((r) => [r.nullifier, r]));
+    const byPda = new Map(byPdaRows.map((r) => [r.nullifier_pda, r]));
+
+    // Anything not indexed: ask the chain
+    const valuePdas = new Map<string, PublicKey[]>();
+    for (const value of values) {
+      if (byValue.has(value)) continue;
+      const bytes = decimalToBytes32(value);
+      valuePdas.set(value, [getNullifierPDA(0, bytes), getNullifierPDA(1, bytes)]);
+    }
+    const unindexedPdas = pdas.filter((p) => !byPda.has(p));
+    const onChain = await existingAccounts([
+      ...[...valuePdas.values()].flat(),
+      ...unindexedPdas.map((p) => new PublicKey(p)),
+    ]);
+
+    const fromIndex = (row: NullifierRecord): CheckResult => ({
+      spent: true,
+      source: 'index',
+      status: row.status,
+      transactionSignature: row.transaction_signature,
+    });
+
+    res.json({
+      nullifiers: values.map((nullifier) => {
+        const row = byValue.get(nullifier);
+        if (row) return { nullifier, ...fromIndex(row) };
+        const spent = valuePdas.get(nullifier)!.some((pda) => onChain.has(pda.toBase58()));
+        return { nullifier, spent, source: 'chain' };
+      }),
+      nullifierPDAs: pdas.map((nullifierPDA) => {
+        const row = byPda.get(nullifierPDA);
+        if (row) return { nullifierPDA, ...fromIndex(row) };
+        return { nullifierPDA, spent: onChain.has(nullifierPDA), source: 'chain' };
+      }),
+    });
+  } catch (error) {
+    console.error('Nullifier check error:', error);
+    res.status(500).json({ error: 'Failed to check nullifiers' });
+  }
+});
+
+export default router;
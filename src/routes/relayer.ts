@@ -0,0 +1,44 @@
+/**
+ * POST /relayer/quote — minimum withdraw fee covering the relayer's cost, with a signed quote id to
+ * pass to /withdraw or /withdraw/spl as `quoteId` (../relayer/quote.ts).
+ */
+import { Router } from 'express';
+import { isValidToken } from '../lib/validators.js';
+import { PriceUnavailableError } from '../relayer/prices.js';
+import { createQuote } from '../relayer/quote.js';
+
+const router = Router();
+
+interface QuoteRequestBody {
+  token?: unknown;
+  /** Withdraw amount in the token's base units (lamports for SOL) */
+  amount?: unknown;
+  /** SPL only: whether the recipient's associated token account already exists */
+  recipientAtaExists?: unknown;
+}
+
+router.post('/quote', async (req, res) => {
+  try {
+    if (typeof req.body !== 'object' || req.body === null || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Invalid request body' });
+    }
+    const { token, amount, recipientAtaExists } = req.body as QuoteRequestBody;
+    if (!isValidToken(token)) return res.status(400).json({ error: 'Invalid token' });
+    const amountStr = typeof amount === 'number' ? String(amount) : amount;
+    if (typeof amountStr !== 'string' || !/^\d{1,20}$/.test(amountStr) || BigInt(amountStr) === 0n) {
+      return res.status(400).json({ error: 'amount must be a positive integer in base units' });
+    }
+    if (recipientAtaExists !== undefined && typeof recipientAtaExists !== 'boolean') {
+      return res.status(400).json({ error: 'recipientAtaExists must be a boolean' });
+    }
+    res.json(await createQuote(token.toLowerCase(), BigInt(amountStr), recipientAtaExists ?? false));
+  } catch (error) {
+    if (error instanceof PriceUnavailableError) {
+      return res.status(503).json({ error: error.message, code: 'PRICE_UNAVAILABLE' });
+    }
+    console.error('Relayer quote error:', error);
+    res.status(503).json({ error: 'Failed to quote relayer fee' });
+  }
+});
+
+export default router;
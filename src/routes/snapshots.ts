@@ -0,0 +1,67 @@
+/**
+ * Binary snapshots for wallet bootstrap (../snapshots). Download the latest once, check its sha256,
+ * then sync the rest from /utxos/range?after=<count - 1>.
+ */
+import { createReadStream } from 'fs';
+import { Router, Request, Response } from 'express';
+import { isValidToken } from '../lib/validators.js';
+import { latestSnapshot, snapshotFile, SnapshotEncoding } from '../snapshots/index.js';
+
+const router = Router();
+
+/** Preferred encoding the client accepts; snapshots are stored pre-compressed in each */
+function pickEncoding(req: Request): SnapshotEncoding {
+  const encoding = req.acceptsEncodings(['br', 'gzip', 'identity']);
+  return encoding === 'br' || encoding === 'gzip' ? encoding : 'identity';
+}
+
+router.get('/:token/latest', async (req: Request<{ token: string }>, res: Response) => {
+  try {
+    if (!isValidToken(req.params.token)) return res.status(404).json({ error: 'Unknown token' });
+    const token = req.params.token.toLowerCase();
+    const meta = await latestSnapshot(token);
+    if (!meta) return res.status(404).json({ error: 'No snapshot available yet' });
+    res.set('Cache-Control', 'no-cache');
+    res.json({ ...meta, url: `/snapshots/${token}/${meta.id}` });
+  } catch (error) {
+    console.error('Error getting latest snapshot:', error);
+    res.status(500).json({ error: 'Failed to get snapshot' });
+  }
+});
+
+router.get('/:token/:id', async (req: Request<{ token: string; id: string }>, res: Response) => {
+  try {
+    if (!isValidToken(req.params.token)) return res.status(404).json({ error: 'Unknown token' });
+    const file = await snapshotFile(req.params.token.toLowerCase(), req.params.id);
+    if (!file) return res.status(404).json({ error: 'Snapshot not found' });
+
+    const encoding = pickEncoding(req);
+    const etag = `"${file.meta.id}-${encoding}"`;
+    res.set({
+      'Content-Type': 'application/octet-stream',
+      // Content-addressed: the bytes behind an id never change
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      ETag: etag,
+      Vary: 'Accept-Encoding',
+    });
+    if (req.get('If-None-Match') === etag) return res.status(304).end();
+    if (encoding !== 'identity') res.set('Content-Encoding', encoding);
+    res.set('Content-Length', String(file.meta.sizes[encoding]));
+
+    const stream = createReadStream(file.path(encoding));
+    stream.on('error', (error) => {
+      // Pruned between the metadata read and the open
+      console.error('Error reading snapshot:', error);
+      if (res.headersSent) return res.destroy();
+      res.removeHeader('Content-Encoding');
+      res.removeHeader('Content-Length');
+      res.set('Cache-Control', 'no-store').status(404).json({ error: 'Snapshot not found' });
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Error getting snapshot:', error);
+    res.status(500).json({ error: 'Failed to get snapshot' });
+  }
+});
+
+export default router;
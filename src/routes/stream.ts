@@ -0,0 +1,188 @@
+/**
+ * Live commitment feed (../stream/feed.ts) over Server-Sent Events (GET /stream/commitments) and
+ * WebSocket (upgrade on the same path). Query: token, fromIndex (replay from there; default: tip),
+ * commitment=finalized. SSE clients resume with Last-Event-ID, which carries the leaf index.
+ */
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { Router, Request, Response } from 'express';
+import { WebSocketServer, WebSocket } from 'ws';
+import { config } from '../config/env.js';
+import { CommitmentLevel } from '../db/index.js';
+import { sanitizeCommitmentLevel, sanitizeToken } from '../lib/validators.js';
+import { FeedEvent, FeedSink, subscribe } from '../stream/feed.js';
+
+const STREAM_PATH = '/stream/commitments';
+/** A live client this far behind is dropped; it reconnects with fromIndex / Last-Event-ID. */
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024;
+const SSE_KEEPALIVE_MS = 15_000;
+const WS_PING_MS = 30_000;
+const WS_DRAIN_POLL_MS = 25;
+
+const router = Router();
+let activeClients = 0;
+/** Ends each open SSE response or socket; used on shutdown */
+const openStreams = new Set<() => void>();
+
+interface StreamParams {
+  token: string;
+  level: CommitmentLevel;
+  fromIndex: number | null;
+}
+
+/** null when fromIndex is present but not a non-negative integer */
+function parseParams(query: Record<string, unknown>, lastEventId?: string): StreamParams | null {
+  const token = sanitizeToken(query.token);
+  const level = sanitizeCommitmentLevel(query.commitment);
+  const raw = query.fromIndex ?? (lastEventId !== undefined && /^\d+$/.test(lastEventId) ? Number(lastEventId) + 1 : undefined);
+  if (raw === undefined || raw === '') return { token, level, fromIndex: null };
+  const fromIndex = Number(raw);
+  if (!Number.isSafeInteger(fromIndex) || fromIndex < 0) return null;
+  return { token, level, fromIndex };
+}
+
+function sseFrame(event: FeedEvent): string {
+  const { type, ...data } = event;
+  const id = event.type === 'commitment' ? `id: ${event.index}\n` : '';
+  return `event: ${type}\n${id}data: ${JSON.stringify(data)}\n\n`;
+}
+
+router.get('/commitments', async (req: Request<object, object, object, Record<string, string>>, res: Response) => {
+  const params = parseParams(req.query, req.get('Last-Event-ID'));
+  if (!params) return res.status(400).json({ error: 'fromIndex must be a non-negative integer' });
+  if (activeClients >= config.streamMaxClients) {
+    return res.status(503).json({ error: 'Too many stream clients, please try again later' });
+  }
+
+  activeClients++;
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-store',
+    // Stop reverse proxies (nginx) from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const closed = () => res.destroyed || res.writableEnded;
+  const sink: FeedSink = {
+    send(event) {
+      const ok = res.write(sseFrame(event));
+      if (res.writableLength > MAX_BUFFERED_BYTES) res.destroy();
+      return ok;
+    },
+    drained: () =>
+      new Promise((resolve) => {
+        const done = () => {
+          res.off('drain', done);
+          res.off('close', done);
+          resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+      }),
+    closed,
+  };
+
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+  let unsubscribe: (() => void) | null = null;
+  const end = () => res.end();
+  openStreams.add(end);
+  res.on('close', () => {
+    activeClients--;
+    openStreams.delete(end);
+    clearInterval(keepalive);
+    unsubscribe?.();
+  });
+  try {
+    const stop = await subscribe(params.token, params.level, params.fromIndex, sink);
+    if (closed()) stop();
+    else unsubscribe = stop;
+  } catch (error) {
+    console.error('Commitment stream error:', error);
+    res.write(`event: error\ndata: ${JSON.stringify({ error: 'Failed to start commitment stream' })}\n\n`);
+    res.end();
+  }
+});
+
+/** Browsers do not apply CORS to WebSockets, so check Origin against CORS_ORIGINS here. */
+function originAllowed(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  return config.corsOrigins === '*' || origin === undefined || config.corsOrigins.includes(origin);
+}
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+  socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+function serveSocket(ws: WebSocket, params: StreamParams): void {
+  activeClients++;
+  let alive = true;
+  let unsubscribe: (() => void) | null = null;
+  const closed = () => ws.readyState !== WebSocket.OPEN;
+  const sink: FeedSink = {
+    send(event) {
+      ws.send(JSON.stringify(event));
+      if (ws.bufferedAmount > MAX_BUFFERED_BYTES) ws.terminate();
+      return ws.bufferedAmount < MAX_BUFFERED_BYTES / 4;
+    },
+    // ws has no drain event; poll the buffer while replaying
+    drained: () =>
+      new Promise((resolve) => {
+        const timer = setInterval(() => {
+          if (closed() || ws.bufferedAmount < MAX_BUFFERED_BYTES / 16) {
+            clearInterval(timer);
+            resolve();
+          }
+        }, WS_DRAIN_POLL_MS);
+      }),
+    closed,
+  };
+
+  const ping = setInterval(() => {
+    if (!alive) return ws.terminate();
+    alive = false;
+    ws.ping();
+  }, WS_PING_MS);
+  ws.on('pong', () => {
+    alive = true;
+  });
+  const end = () => ws.close(1001, 'Server shutting down');
+  openStreams.add(end);
+  ws.on('close', () => {
+    activeClients--;
+    openStreams.delete(end);
+    clearInterval(ping);
+    unsubscribe?.();
+  });
+
+  subscribe(params.token, params.level, params.fromIndex, sink)
+    .then((stop) => {
+      if (closed()) stop();
+      else unsubscribe = stop;
+    })
+    .catch((error) => {
+      console.error('Commitment socket error:', error);
+      ws.close(1011, 'Failed to start commitment stream');
+    });
+}
+
+/** Serve the WebSocket form of /stream/commitments on the API's HTTP server. */
+export function attachCommitmentSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 });
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== STREAM_PATH) return rejectUpgrade(socket, '404 Not Found');
+    if (!originAllowed(req)) return rejectUpgrade(socket, '403 Forbidden');
+    const params = parseParams(Object.fromEntries(url.searchParams));
+    if (!params) return rejectUpgrade(socket, '400 Bad Request');
+    if (activeClients >= config.streamMaxClients) return rejectUpgrade(socket, '503 Service Unavailable');
+    wss.handleUpgrade(req, socket, head, (ws) => serveSocket(ws, params));
+  });
+}
+
+/** End every open stream (SSE and WebSocket) so the HTTP server can close; clients reconnect elsewhere */
+export function closeCommitmentStreams(): void {
+  for (const end of openStreams) end();
+}
+
+export default router;
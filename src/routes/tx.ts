@@ -0,0 +1,42 @@
+/**
+ * Status of relayed transactions (../relayer/submissions.ts). `:id` is the submissionId returned by
+ * the relay routes or any signature the transaction was sent under; rebroadcasts change the
+ * signature, not the id.
+ */
+import { Router } from 'express';
+import { getStore } from '../db/index.js';
+import { isValidSignature, isValidSubmissionId } from '../lib/validators.js';
+
+const router = Router();
+
+router.get('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!isValidSubmissionId(id) && !isValidSignature(id)) {
+      return res.status(400).json({ error: 'Invalid submission id or signature' });
+    }
+    const submission = await getStore().findSubmission(id);
+    if (!submission) return res.status(404).json({ error: 'Unknown transaction' });
+    res.set('Cache-Control', 'no-cache');
+    res.json({
+      submissionId: submission.id,
+      kind: submission.kind,
+      token: submission.token,
+      status: submission.status,
+      signature: submission.signature,
+      signatures: submission.signatures,
+      attempts: submission.attempts,
+      slot: submission.slot,
+      error: submission.error,
+      errorCode: submission.error_code,
+      errorReason: submission.error_reason,
+      createdAt: submission.created_at,
+      updatedAt: submission.updated_at,
+    });
+  } catch (error) {
+    console.error('Submission lookup error:', error);
+    res.status(500).json({ error: 'Failed to get transaction status' });
+  }
+});
+
+export default router;
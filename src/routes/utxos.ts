@@ -1,65 +1,204 @@
-import { Router, Request } from 'express';
-import { getDb } from '../db/index.js';
-import { sanitizeToken, clampInt, isValidEncryptedOutput } from '../lib/validators.js';
+import { Router, Request, Response } from 'express';
+import { config } from '../config/env.js';
+import { getStore, visibleStatuses, CommitmentRecord, CommitmentStatus } from '../db/index.js';
+import { createCache, createLruCache } from '../lib/cache.js';
+import { CACHE_FINALIZED, CACHE_REVALIDATE, sendJson } from '../lib/httpCache.js';
+import { sanitizeToken, sanitizeCommitmentLevel, clampInt, isValidEncryptedOutput } from '../lib/validators.js';
 
 const router = Router();
 
 const MAX_RANGE_SIZE = 1000;
 const MAX_INDICES_BATCH = 500;
+const NDJSON = 'application/x-ndjson';
+/** The finalized tip only grows; a tip this stale just serves a few more pages as revalidatable */
+const FINALIZED_TIP_TTL_MS = 5_000;
+
+type RangeQuery = { token?: string; start?: string; end?: string; after?: string; limit?: string; commitment?: string };
+
+type Utxo = { index: number; commitment: string; encrypted_output: string };
+
+function toUtxo(r: CommitmentRecord): Utxo {
+  return { index: r.commitment_index, commitment: r.commitment, encrypted_output: r.encrypted_output };
+}
+
+/** Pages below the finalized tip, keyed by token and [from, to); they never change, so no expiry */
+const finalizedPages = createLruCache<Utxo[]>(config.rangeCacheEntries);
+/** Finalized row count per token: an upper bound on the finalized tip, which skips the query for pages above it */
+const finalizedCounts = createCache<number>(FINALIZED_TIP_TTL_MS);
+
+async function finalizedCount(token: string): Promise<number> {
+  const cached = finalizedCounts.get(token);
+  if (cached !== undefined) return cached;
+  const count = await getStore().countCommitments(token, visibleStatuses('finalized'));
+  finalizedCounts.set(token, count);
+  return count;
+}
+
+/**
+ * Rows [from, to) if the whole range is below the token's finalized tip (from the LRU or the DB),
+ * else null. Such rows are the same at every commitment level and never change.
+ */
+async function finalizedRange(token: string, from: number, to: number): Promise<Utxo[] | null> {
+  if (to <= from) return null;
+  const key = `${token}:${from}:${to}`;
+  const cached = finalizedPages.get(key);
+  if (cached) return cached;
+  if (to > (await finalizedCount(token))) return null;
+  const rows = await getStore().listCommitments({
+    token,
+    statuses: visibleStatuses('finalized'),
+    fromIndex: from,
+    toIndex: to,
+    limit: to - from,
+  });
+  // Every index in [from, to) must be finalized; fewer rows means a gap or rows not yet finalized
+  if (rows.length !== to - from) return null;
+  const utxos = rows.map(toUtxo);
+  finalizedPages.set(key, utxos);
+  return utxos;
+}
+
+/**
+ * `after` cursor: the last index a client has seen, as returned in nextCursor. Clients should treat
+ * it as opaque. Empty means "from the start"; returns the first index to read, or null if invalid.
+ */
+function parseAfter(after: string): number | null {
+  if (after === '') return 0;
+  if (!/^\d{1,16}$/.test(after)) return null;
+  const index = Number(after);
+  return Number.isSafeInteger(index) ? index + 1 : null;
+}
+
+/** Resolve once the socket has drained, or the client went away */
+function drained(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+/**
+ * Stream every row from `fromIndex` to the current tip as one JSON object per line. Pages are read
+ * only as fast as the client consumes them, and reading stops when it disconnects.
+ */
+async function streamRange(res: Response, token: string, statuses: CommitmentStatus[], fromIndex: number): Promise<void> {
+  const store = getStore();
+  res.status(200).type(NDJSON).set('Cache-Control', 'no-store');
+  let next = fromIndex;
+  for (;;) {
+    const page = await store.listCommitments({ token, statuses, fromIndex: next, limit: MAX_RANGE_SIZE });
+    for (const row of page) {
+      if (res.destroyed) return;
+      if (!res.write(`${JSON.stringify(toUtxo(row))}\n`)) await drained(res);
+    }
+    if (page.length < MAX_RANGE_SIZE || res.destroyed) break;
+    next = page[page.length - 1].commitment_index + 1;
+  }
+  res.end();
+}
+
+/**
+ * GET /utxos/range has three modes:
+ * - `Accept: application/x-ndjson`: stream from `start` (or after `after`) to the tip, one utxo per line.
+ * - `after=<cursor>&limit=`: one page after the cursor, with `nextCursor` and an exact `hasMore`; no count.
+ * - `start=&end=` (legacy, used by privacy-cash-sdk): one page with the token's total row count.
+ * JSON responses carry a strong ETag (If-None-Match gets a 304). Cursor pages entirely below the
+ * finalized tip, look-ahead row included, are also `immutable`; legacy pages carry the live total
+ * and are always revalidated.
+ */
+router.get('/range', async (req: Request<object, object, object, RangeQuery>, res) => {
+  // The same URL serves JSON or NDJSON, so caches must key on Accept
+  res.vary('Accept');
+  const token = sanitizeToken(req.query.token);
+  const statuses = visibleStatuses(sanitizeCommitmentLevel(req.query.commitment));
+  let after: number | null = null;
+  if (typeof req.query.after === 'string') {
+    after = parseAfter(req.query.after);
+    if (after === null) return res.status(400).json({ error: 'Invalid after cursor' });
+  }
+
+  if (req.accepts(['application/json', NDJSON]) === NDJSON) {
+    const fromIndex = after ?? clampInt(req.query.start, 0, 0, Number.MAX_SAFE_INTEGER);
+    try {
+      await streamRange(res, token, statuses, fromIndex);
+    } catch (error) {
+      console.error('UTXOs range stream error:', error);
+      // Once lines are out the status is sent; cut the stream so the client sees it incomplete
+      if (res.headersSent) res.destroy();
+      else res.status(500).json({ error: 'Failed to fetch UTXOs' });
+    }
+    return;
+  }
 
-router.get(
-  '/range',
-  async (
-    req: Request<object, object, object, { token?: string; start?: string; end?: string }>,
-    res
-  ) => {
+  if (after !== null) {
     try {
-      const token = sanitizeToken(req.query.token);
-      const start = clampInt(req.query.start, 0, 0, Number.MAX_SAFE_INTEGER);
-      const end = clampInt(req.query.end, 20000, start, start + MAX_RANGE_SIZE);
-
-      const db = getDb();
-
-      const [{ count: totalCount }, { data: rows }] = await Promise.all([
-        db.from('commitments').select('*', { count: 'exact', head: true }).eq('token', token),
-        db
-          .from('commitments')
-          .select('commitment_index, commitment, encrypted_output')
-          .eq('token', token)
-          .gte('commitment_index', start)
-          .lt('commitment_index', end)
-          .order('commitment_index', { ascending: true })
-          .limit(MAX_RANGE_SIZE),
-      ]);
-
-      const total = totalCount ?? 0;
-      const list = rows ?? [];
-      // Only include non-empty encrypted_output so clients get decryptable entries
-      const encrypted_outputs = list
-        .map((r) => (r as { encrypted_output?: string | null }).encrypted_output)
-        .filter((eo): eo is string => typeof eo === 'string' && eo.length > 0);
-
-      if (list.length > 0 && encrypted_outputs.length < list.length) {
-        console.warn(`[utxos/range] token=${token} start=${start} end=${end}: ${list.length} rows, ${encrypted_outputs.length} with encrypted_output (${list.length - encrypted_outputs.length} null/empty)`);
-      }
-
-      res.json({
+      const limit = clampInt(req.query.limit, MAX_RANGE_SIZE, 1, MAX_RANGE_SIZE);
+      // One extra row tells whether another page exists without counting
+      const finalized = await finalizedRange(token, after, after + limit + 1);
+      const rows =
+        finalized ??
+        (await getStore().listCommitments({ token, statuses, fromIndex: after, limit: limit + 1 })).map(toUtxo);
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      const body = {
+        utxos: page,
+        len: page.length,
+        hasMore: rows.length > limit,
+        // Unchanged when the page is empty, so a caught-up client can keep polling with it
+        nextCursor: last ? String(last.index) : req.query.after,
+      };
+      return sendJson(res, body, finalized ? CACHE_FINALIZED : CACHE_REVALIDATE);
+    } catch (error) {
+      console.error('UTXOs range error:', error);
+      return res.status(500).json({ error: 'Failed to fetch UTXOs' });
+    }
+  }
+
+  try {
+    const start = clampInt(req.query.start, 0, 0, Number.MAX_SAFE_INTEGER);
+    const end = clampInt(req.query.end, 20000, start, start + MAX_RANGE_SIZE);
+
+    const store = getStore();
+
+    const [total, list] = await Promise.all([
+      store.countCommitments(token, statuses),
+      finalizedRange(token, start, end).then(
+        async (finalized) =>
+          finalized ??
+          (await store.listCommitments({ token, statuses, fromIndex: start, toIndex: end, limit: MAX_RANGE_SIZE })).map(toUtxo)
+      ),
+    ]);
+
+    // Only include non-empty encrypted_output so clients get decryptable entries
+    const encrypted_outputs = list
+      .map((r) => r.encrypted_output as string | null)
+      .filter((eo): eo is string => typeof eo === 'string' && eo.length > 0);
+
+    if (list.length > 0 && encrypted_outputs.length < list.length) {
+      console.warn(`[utxos/range] token=${token} start=${start} end=${end}: ${list.length} rows, ${encrypted_outputs.length} with encrypted_output (${list.length - encrypted_outputs.length} null/empty)`);
+    }
+
+    sendJson(
+      res,
+      {
         encrypted_outputs,
         total,
         hasMore: list.length >= MAX_RANGE_SIZE || end < total,
         len: list.length,
-        utxos: list.map((r) => ({
-          index: r.commitment_index,
-          commitment: r.commitment,
-          encrypted_output: r.encrypted_output,
-        })),
-      });
-    } catch (error) {
-      console.error('UTXOs range error:', error);
-      res.status(500).json({ error: 'Failed to fetch UTXOs' });
-    }
+        utxos: list,
+      },
+      CACHE_REVALIDATE
+    );
+  } catch (error) {
+    console.error('UTXOs range error:', error);
+    res.status(500).json({ error: 'Failed to fetch UTXOs' });
   }
-);
+});
 
 router.get('/check/:encryptedOutput', async (req: Request<{ encryptedOutput: string }, object, object, { token?: string }>, res) => {
   try {
@@ -70,15 +209,9 @@ router.get('/check/:encryptedOutput', async (req: Request<{ encryptedOutput: str
       return res.status(400).json({ error: 'Invalid encrypted output' });
     }
 
-    const db = getDb();
-    const { data: row } = await db
-      .from('commitments')
-      .select('id')
-      .eq('encrypted_output', encryptedOutput)
-      .eq('token', token)
-      .maybeSingle();
+    const rows = await getStore().findByEncryptedOutputs(token, [encryptedOutput], visibleStatuses('confirmed'));
 
-    res.json({ exists: !!row });
+    res.json({ exists: rows.length > 0 });
   } catch (error) {
     console.error('UTXO check error:', error);
     res.status(500).json({ error: 'Failed to check UTXO' });
@@ -102,18 +235,10 @@ router.post('/indices', async (req, res) => {
     }
 
     const token = sanitizeToken(bodyToken);
-    const db = getDb();
-
-    let query = db
-      .from('commitments')
-      .select('encrypted_output, commitment_index')
-      .eq('token', token)
-      .in('encrypted_output', valid);
-
-    const { data: rows } = await query;
+    const rows = await getStore().findByEncryptedOutputs(token, valid, visibleStatuses('confirmed'));
 
     const byEnc = new Map<string, number>();
-    for (const r of rows ?? []) {
+    for (const r of rows) {
       byEnc.set(r.encrypted_output, r.commitment_index);
     }
 
@@ -5,11 +5,20 @@ import {
   TransactionInstruction,
   VersionedTransaction,
   TransactionMessage,
-  ComputeBudgetProgram,
 } from '@solana/web3.js';
 import { getConnection, getRelayerKeypair } from '../solana/connection.js';
 import { config } from '../config/env.js';
+import { SOL_MINT_ADDRESS } from '../lib/mints.js';
 import { isValidBase64, isValidSolanaAddress } from '../lib/validators.js';
+import { IdlDecodeError } from '../solana/idl.js';
+import { decodeTransact, TransactInstruction } from '../solana/instructions.js';
+import { checkWithdraw } from '../solana/withdrawChecks.js';
+import { checkRelayerFee } from '../relayer/quote.js';
+import { computeBudgetInstructions, sizeComputeBudget } from '../relayer/computeBudget.js';
+import { relayTransaction } from '../relayer/submissions.js';
+import { simulateRelay } from '../relayer/simulate.js';
+import { classifyRelayError, classifyTransactionError } from '../solana/programErrors.js';
+import { deriveSolWithdrawAccounts, findAccountMismatch, SolWithdrawAccounts } from '../solana/withdrawAccounts.js';
 
 const router = Router();
 
@@ -22,8 +31,19 @@ router.get('/relayer-address', (_req, res) => {
   res.json({ relayerAddress: keypair.publicKey.toBase58() });
 });
 
+/**
+ * serializedProof is the transact instruction data. The tree, nullifier, pool, config and fee
+ * accounts are derived by the server (../solana/withdrawAccounts.ts); clients may still send them,
+ * and they must match.
+ */
 interface WithdrawRequestBody {
   serializedProof?: string;
+  recipient?: string;
+  encryptedOutput1?: string;
+  encryptedOutput2?: string;
+  lookupTableAddress?: string;
+  /** From POST /relayer/quote; without one the fee must cover the relayer's cost at current prices */
+  quoteId?: string;
   treeAccount?: string;
   nullifier0PDA?: string;
   nullifier1PDA?: string;
@@ -31,59 +51,27 @@ interface WithdrawRequestBody {
   nullifier3PDA?: string;
   treeTokenAccount?: string;
   globalConfigAccount?: string;
-  recipient?: string;
   feeRecipientAccount?: string;
-  encryptedOutput1?: string;
-  encryptedOutput2?: string;
-  lookupTableAddress?: string;
 }
 
 function buildWithdrawInstruction(
-  params: WithdrawRequestBody,
+  instructionData: Buffer,
+  accounts: SolWithdrawAccounts,
+  recipient: PublicKey,
   signerPubkey: PublicKey
 ): TransactionInstruction {
-  const {
-    serializedProof,
-    treeAccount,
-    nullifier0PDA,
-    nullifier1PDA,
-    nullifier2PDA,
-    nullifier3PDA,
-    treeTokenAccount,
-    globalConfigAccount,
-    recipient,
-    feeRecipientAccount,
-  } = params;
-
-  if (
-    !serializedProof ||
-    !treeAccount ||
-    !nullifier0PDA ||
-    !nullifier1PDA ||
-    !nullifier2PDA ||
-    !nullifier3PDA ||
-    !treeTokenAccount ||
-    !globalConfigAccount ||
-    !recipient ||
-    !feeRecipientAccount
-  ) {
-    throw new Error('Missing required withdraw parameters');
-  }
-
-  const instructionData = Buffer.from(serializedProof, 'base64');
-
   return new TransactionInstruction({
     programId: config.programId,
     keys: [
-      { pubkey: new PublicKey(treeAccount), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(nullifier0PDA), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(nullifier1PDA), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(nullifier2PDA), isSigner: false, isWritable: false },
-      { pubkey: new PublicKey(nullifier3PDA), isSigner: false, isWritable: false },
-      { pubkey: new PublicKey(treeTokenAccount), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(globalConfigAccount), isSigner: false, isWritable: false },
-      { pubkey: new PublicKey(recipient), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(feeRecipientAccount), isSigner: false, isWritable: true },
+      { pubkey: accounts.treeAccount, isSigner: false, isWritable: true },
+      { pubkey: accounts.nullifier0PDA, isSigner: false, isWritable: true },
+      { pubkey: accounts.nullifier1PDA, isSigner: false, isWritable: true },
+      { pubkey: accounts.nullifier2PDA, isSigner: false, isWritable: false },
+      { pubkey: accounts.nullifier3PDA, isSigner: false, isWritable: false },
+      { pubkey: accounts.treeTokenAccount, isSigner: false, isWritable: true },
+      { pubkey: accounts.globalConfigAccount, isSigner: false, isWritable: false },
+      { pubkey: recipient, isSigner: false, isWritable: true },
+      { pubkey: accounts.feeRecipientAccount, isSigner: false, isWritable: true },
       { pubkey: signerPubkey, isSigner: true, isWritable: true },
       { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
     ],
@@ -92,32 +80,11 @@ function buildWithdrawInstruction(
 }
 
 function validateWithdrawBuildParams(body: WithdrawRequestBody): string | null {
-  const required = [
-    body.serializedProof,
-    body.treeAccount,
-    body.nullifier0PDA,
-    body.nullifier1PDA,
-    body.nullifier2PDA,
-    body.nullifier3PDA,
-    body.treeTokenAccount,
-    body.globalConfigAccount,
-    body.recipient,
-    body.feeRecipientAccount,
-  ];
-  if (required.some((r) => !r || typeof r !== 'string')) return 'Missing required parameters';
-  const addrs = [
-    body.treeAccount!,
-    body.nullifier0PDA!,
-    body.nullifier1PDA!,
-    body.nullifier2PDA!,
-    body.nullifier3PDA!,
-    body.treeTokenAccount!,
-    body.globalConfigAccount!,
-    body.recipient!,
-    body.feeRecipientAccount!,
-  ];
-  if (addrs.some((a) => !isValidSolanaAddress(a))) return 'Invalid address';
-  if (!isValidBase64(body.serializedProof!, 64 * 1024)) return 'Invalid proof';
+  if (!body.serializedProof || typeof body.serializedProof !== 'string' || !body.recipient || typeof body.recipient !== 'string') {
+    return 'Missing required parameters';
+  }
+  if (!isValidSolanaAddress(body.recipient)) return 'Invalid address';
+  if (!isValidBase64(body.serializedProof, 64 * 1024)) return 'Invalid proof';
   if (body.lookupTableAddress && !isValidSolanaAddress(body.lookupTableAddress)) return 'Invalid lookup table address';
   return null;
 }
@@ -128,10 +95,31 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ error: 'Invalid request body' });
     }
     const body = req.body as WithdrawRequestBody;
+    // ?simulate=true: build and simulate the transaction, never send it
+    const dryRun = req.query.simulate === 'true';
 
     const err = validateWithdrawBuildParams(body);
     if (err) return res.status(400).json({ error: err });
 
+    const recipient = new PublicKey(body.recipient!);
+    const instructionData = Buffer.from(body.serializedProof!, 'base64');
+    let ix: TransactInstruction | null;
+    try {
+      ix = decodeTransact(instructionData);
+    } catch (e) {
+      if (!(e instanceof IdlDecodeError)) throw e;
+      ix = null;
+    }
+    const accounts = ix && deriveSolWithdrawAccounts(ix);
+    if (!ix || !accounts) return res.status(400).json({ error: 'Invalid proof: not a transact instruction' });
+    const mismatch = findAccountMismatch(body as Record<string, unknown>, accounts);
+    if (mismatch) {
+      return res.status(400).json({ error: `${mismatch.field} does not match the derived account`, ...mismatch });
+    }
+    // Before any fee is paid: reject what the program would reject
+    const rejected = await checkWithdraw(ix, { recipient, feeRecipient: accounts.feeRecipientAccount, mint: SOL_MINT_ADDRESS });
+    if (rejected) return res.status(400).json(rejected);
+
     const relayerKeypair = getRelayerKeypair();
     if (!relayerKeypair) {
       return res.status(503).json({ error: 'Relayer not configured. SOL withdraw requires relayer as signer.' });
@@ -140,20 +128,9 @@ router.post('/', async (req, res) => {
     const connection = getConnection();
     const lookupTableAddress = new PublicKey(body.lookupTableAddress ?? config.altAddress);
     const lookupTableAccount = await connection.getAddressLookupTable(lookupTableAddress);
+    const lookupTables = lookupTableAccount.value ? [lookupTableAccount.value] : [];
 
-    const computeIx = ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 });
-    const withdrawIx = buildWithdrawInstruction(body, relayerKeypair.publicKey);
-
-    const { blockhash } = await connection.getLatestBlockhash('confirmed');
-    const messageV0 = new TransactionMessage({
-      payerKey: relayerKeypair.publicKey,
-      recentBlockhash: blockhash,
-      instructions: [computeIx, withdrawIx],
-    }).compileToV0Message(
-      lookupTableAccount.value ? [lookupTableAccount.value] : []
-    );
-
-    const transaction = new VersionedTransaction(messageV0);
+    const withdrawIx = buildWithdrawInstruction(instructionData, accounts, recipient, relayerKeypair.publicKey);
 
     const MIN_RELAYER_LAMPORTS = 10_000_000; // 0.01 SOL
     const relayerBalance = await connection.getBalance(relayerKeypair.publicKey);
@@ -164,21 +141,43 @@ router.post('/', async (req, res) => {
       });
     }
 
+    // Size the compute budget by simulation and price it for the accounts this withdraw locks
+    const simulated = await sizeComputeBudget(relayerKeypair.publicKey, [withdrawIx], lookupTables, [
+      accounts.treeAccount,
+      accounts.nullifier0PDA,
+      accounts.nullifier1PDA,
+    ]);
+    if (simulated.error && !dryRun) {
+      const { status, ...failure } = classifyTransactionError(simulated.error, simulated.logs, true);
+      return res.status(status).json(failure);
+    }
+    const { budget } = simulated;
+    const underpaid = await checkRelayerFee('sol', ix.fee, true, body.quoteId, budget);
+    if (underpaid) return res.status(400).json(underpaid);
+
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    const messageV0 = new TransactionMessage({
+      payerKey: relayerKeypair.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [...computeBudgetInstructions(budget), withdrawIx],
+    }).compileToV0Message(lookupTables);
+
+    const transaction = new VersionedTransaction(messageV0);
+    if (dryRun) return res.json({ ...(await simulateRelay(transaction)), ...budget });
     transaction.sign([relayerKeypair]);
-    const signature = await connection.sendTransaction(transaction, {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
-      maxRetries: 3,
+    const { submissionId, signature } = await relayTransaction(transaction, {
+      kind: 'withdraw',
+      token: 'sol',
+      root: ix.root,
+      relayerSigned: true,
     });
-    return res.json({ signature, success: true });
+    return res.json({ signature, submissionId, success: true, ...budget });
   } catch (error: unknown) {
     console.error('Withdraw error:', error);
-    const err = error as { message?: string; transactionMessage?: string };
-    const msg = err.transactionMessage ?? err.message ?? '';
-    if (msg.includes('insufficient funds for rent')) {
-      return res.status(503).json({
-        error: 'Relayer has insufficient SOL for transaction fees and rent. Fund the relayer wallet (see server logs for address).',
-      });
+    const failure = classifyRelayError(error, true);
+    if (failure) {
+      const { status, ...body } = failure;
+      return res.status(status).json(body);
     }
     res.status(500).json({ error: 'Failed to process withdraw' });
   }
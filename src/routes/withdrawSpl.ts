@@ -4,94 +4,78 @@ import {
   TransactionInstruction,
   VersionedTransaction,
   TransactionMessage,
-  ComputeBudgetProgram,
 } from '@solana/web3.js';
 import { getConnection, getRelayerKeypair } from '../solana/connection.js';
 import { config } from '../config/env.js';
-import { isValidBase64, isValidSolanaAddress } from '../lib/validators.js';
+import { getMintFromToken, getTokenFromMint } from '../lib/mints.js';
+import { isValidBase64, isValidSolanaAddress, isValidToken } from '../lib/validators.js';
+import { IdlDecodeError } from '../solana/idl.js';
+import { decodeTransact, TransactInstruction } from '../solana/instructions.js';
+import { checkWithdraw } from '../solana/withdrawChecks.js';
+import { PriceUnavailableError } from '../relayer/prices.js';
+import { checkRelayerFee } from '../relayer/quote.js';
+import { computeBudgetInstructions, sizeComputeBudget } from '../relayer/computeBudget.js';
+import { relayTransaction } from '../relayer/submissions.js';
+import { simulateRelay } from '../relayer/simulate.js';
+import { classifyRelayError, classifyTransactionError } from '../solana/programErrors.js';
+import { deriveSplWithdrawAccounts, findAccountMismatch, SplWithdrawAccounts } from '../solana/withdrawAccounts.js';
 
 const router = Router();
 /** Solana serialized transaction size limit (bytes). Exceeding causes SendTransactionError. */
 const MAX_TX_SIZE_RAW = 1232;
 
+/**
+ * serializedProof is the transact_spl instruction data; the mint comes from `token` or
+ * `mintAddress` and must be a supported token. The tree, nullifier, config and token accounts are
+ * derived by the server (../solana/withdrawAccounts.ts); clients may still send them, and they must match.
+ */
 interface WithdrawSplRequestBody {
   serializedProof?: string;
+  recipient?: string;
+  token?: string;
+  mintAddress?: string;
+  lookupTableAddress?: string;
+  /** From POST /relayer/quote; without one the fee must cover the relayer's cost at current prices */
+  quoteId?: string;
   treeAccount?: string;
   nullifier0PDA?: string;
   nullifier1PDA?: string;
   nullifier2PDA?: string;
   nullifier3PDA?: string;
   globalConfigAccount?: string;
-  recipient?: string;
   recipientAta?: string;
   treeAta?: string;
   feeRecipientTokenAccount?: string;
-  mintAddress?: string;
-  lookupTableAddress?: string;
 }
 
-async function buildWithdrawSplInstruction(params: WithdrawSplRequestBody): Promise<TransactionInstruction> {
-  const {
-    serializedProof,
-    treeAccount,
-    nullifier0PDA,
-    nullifier1PDA,
-    nullifier2PDA,
-    nullifier3PDA,
-    globalConfigAccount,
-    recipient,
-    recipientAta,
-    treeAta,
-    feeRecipientTokenAccount,
-    mintAddress,
-  } = params;
-
-  if (
-    !serializedProof ||
-    !treeAccount ||
-    !nullifier0PDA ||
-    !nullifier1PDA ||
-    !nullifier2PDA ||
-    !nullifier3PDA ||
-    !globalConfigAccount ||
-    !recipient ||
-    !recipientAta ||
-    !treeAta ||
-    !feeRecipientTokenAccount ||
-    !mintAddress
-  ) {
-    throw new Error('Missing required withdraw SPL parameters');
-  }
-
-  const relayerKeypair = getRelayerKeypair();
-  if (!relayerKeypair) {
-    throw new Error('Relayer not configured; cannot build SPL withdraw instruction');
-  }
+async function buildWithdrawSplInstruction(
+  instructionData: Buffer,
+  accounts: SplWithdrawAccounts,
+  mint: PublicKey,
+  recipient: PublicKey,
+  signerPubkey: PublicKey
+): Promise<TransactionInstruction> {
   const { getAssociatedTokenAddressSync, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID } = await import(
     '@solana/spl-token'
   );
-  const mint = new PublicKey(mintAddress);
-  const signerPubkey = relayerKeypair.publicKey;
   const signerTokenAccount = getAssociatedTokenAddressSync(mint, signerPubkey);
 
-  const instructionData = Buffer.from(serializedProof, 'base64');
-
   return new TransactionInstruction({
     programId: config.programId,
     keys: [
-      { pubkey: new PublicKey(treeAccount), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(nullifier0PDA), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(nullifier1PDA), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(nullifier2PDA), isSigner: false, isWritable: false },
-      { pubkey: new PublicKey(nullifier3PDA), isSigner: false, isWritable: false },
-      { pubkey: new PublicKey(globalConfigAccount), isSigner: false, isWritable: false },
+      { pubkey: accounts.treeAccount, isSigner: false, isWritable: true },
+      { pubkey: accounts.nullifier0PDA, isSigner: false, isWritable: true },
+      { pubkey: accounts.nullifier1PDA, isSigner: false, isWritable: true },
+      { pubkey: accounts.nullifier2PDA, isSigner: false, isWritable: false },
+      { pubkey: accounts.nullifier3PDA, isSigner: false, isWritable: false },
+      { pubkey: accounts.globalConfigAccount, isSigner: false, isWritable: false },
       { pubkey: signerPubkey, isSigner: true, isWritable: true },
       { pubkey: mint, isSigner: false, isWritable: false },
       { pubkey: signerTokenAccount, isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(recipient), isSigner: false, isWritable: false },
-      { pubkey: new PublicKey(recipientAta), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(treeAta), isSigner: false, isWritable: true },
-      { pubkey: new PublicKey(feeRecipientTokenAccount), isSigner: false, isWritable: true },
+      { pubkey: recipient, isSigner: false, isWritable: false },
+      { pubkey: accounts.recipientAta, isSigner: false, isWritable: true },
+      { pubkey: accounts.treeAta, isSigner: false, isWritable: true },
+      { pubkey: accounts.feeRecipientTokenAccount, isSigner: false, isWritable: true },
       { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
       { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
       { pubkey: new PublicKey('11111111111111111111111111111111'), isSigner: false, isWritable: false },
@@ -101,50 +85,64 @@ async function buildWithdrawSplInstruction(params: WithdrawSplRequestBody): Prom
 }
 
 function validateWithdrawSplBuildParams(body: WithdrawSplRequestBody): string | null {
-  const required = [
-    body.serializedProof,
-    body.treeAccount,
-    body.nullifier0PDA,
-    body.nullifier1PDA,
-    body.nullifier2PDA,
-    body.nullifier3PDA,
-    body.globalConfigAccount,
-    body.recipient,
-    body.recipientAta,
-    body.treeAta,
-    body.feeRecipientTokenAccount,
-    body.mintAddress,
-  ];
-  if (required.some((r) => !r || typeof r !== 'string')) return 'Missing required parameters';
-  const addrs = [
-    body.treeAccount!,
-    body.nullifier0PDA!,
-    body.nullifier1PDA!,
-    body.nullifier2PDA!,
-    body.nullifier3PDA!,
-    body.globalConfigAccount!,
-    body.recipient!,
-    body.recipientAta!,
-    body.treeAta!,
-    body.feeRecipientTokenAccount!,
-    body.mintAddress!,
-  ];
-  if (addrs.some((a) => !isValidSolanaAddress(a))) return 'Invalid address';
-  if (!isValidBase64(body.serializedProof!, 64 * 1024)) return 'Invalid proof';
+  if (!body.serializedProof || typeof body.serializedProof !== 'string' || !body.recipient || typeof body.recipient !== 'string') {
+    return 'Missing required parameters';
+  }
+  if (!body.token && !body.mintAddress) return 'Missing required parameters';
+  if (!isValidSolanaAddress(body.recipient)) return 'Invalid address';
+  if (body.mintAddress && !isValidSolanaAddress(body.mintAddress)) return 'Invalid address';
+  if (!isValidBase64(body.serializedProof, 64 * 1024)) return 'Invalid proof';
   if (body.lookupTableAddress && !isValidSolanaAddress(body.lookupTableAddress)) return 'Invalid lookup table address';
   return null;
 }
 
+/** The pool mint from `token` or `mintAddress` (both must agree); null for unsupported mints. */
+function resolveMint(body: WithdrawSplRequestBody): PublicKey | null {
+  const byToken = isValidToken(body.token) ? getMintFromToken(body.token.toLowerCase()) : undefined;
+  if (body.token && !byToken) return null;
+  const byAddress = body.mintAddress ? new PublicKey(body.mintAddress) : undefined;
+  if (byAddress && !getTokenFromMint(byAddress)) return null;
+  if (byToken && byAddress && !byToken.equals(byAddress)) return null;
+  return byToken ?? byAddress ?? null;
+}
+
 router.post('/', async (req, res) => {
   try {
     if (typeof req.body !== 'object' || req.body === null || Array.isArray(req.body)) {
       return res.status(400).json({ error: 'Invalid request body' });
     }
     const body = req.body as WithdrawSplRequestBody;
+    // ?simulate=true: build and simulate the transaction, never send it
+    const dryRun = req.query.simulate === 'true';
 
     const err = validateWithdrawSplBuildParams(body);
     if (err) return res.status(400).json({ error: err });
 
+    const mint = resolveMint(body);
+    if (!mint) return res.status(400).json({ error: 'Unsupported token or mint' });
+    const recipient = new PublicKey(body.recipient!);
+    const instructionData = Buffer.from(body.serializedProof!, 'base64');
+    let ix: TransactInstruction | null;
+    try {
+      ix = decodeTransact(instructionData);
+    } catch (e) {
+      if (!(e instanceof IdlDecodeError)) throw e;
+      ix = null;
+    }
+    const accounts = ix && deriveSplWithdrawAccounts(ix, mint, recipient);
+    if (!ix || !accounts) return res.status(400).json({ error: 'Invalid proof: not a transact_spl instruction' });
+    const mismatch = findAccountMismatch(body as Record<string, unknown>, accounts);
+    if (mismatch) {
+      return res.status(400).json({ error: `${mismatch.field} does not match the derived account`, ...mismatch });
+    }
+    // Before any fee is paid: reject what the program would reject
+    const rejected = await checkWithdraw(
+      ix,
+      { recipient, feeRecipient: accounts.feeRecipientTokenAccount, mint },
+      mint
+    );
+    if (rejected) return res.status(400).json(rejected);
+
     const connection = getConnection();
     const {
       getAssociatedTokenAddressSync,
@@ -152,13 +150,7 @@ router.post('/', async (req, res) => {
       TOKEN_PROGRAM_ID,
       ASSOCIATED_TOKEN_PROGRAM_ID,
     } = await import('@solana/spl-token');
-    const mint = new PublicKey(body.mintAddress!);
-    const recipient = new PublicKey(body.recipient!);
-    const recipientAta = new PublicKey(body.recipientAta!);
-    const derivedRecipientAta = getAssociatedTokenAddressSync(mint, recipient);
-    if (!derivedRecipientAta.equals(recipientAta)) {
-      return res.status(400).json({ error: 'recipientAta does not match recipient and mint' });
-    }
+    const recipientAta = accounts.recipientAta;
     const relayerKeypair = getRelayerKeypair();
     if (!relayerKeypair) {
       return res.status(503).json({ error: 'Relayer not configured. SPL withdraw requires relayer as signer.' });
@@ -166,9 +158,7 @@ router.post('/', async (req, res) => {
     const payer = relayerKeypair.publicKey;
     const signerTokenAccount = getAssociatedTokenAddressSync(mint, payer);
 
-    const instructionData = Buffer.from(body.serializedProof!, 'base64');
-    const computeIx = ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 });
-    const withdrawIx = await buildWithdrawSplInstruction(body);
+    const withdrawIx = await buildWithdrawSplInstruction(instructionData, accounts, mint, recipient, payer);
 
     // Ensure recipient ATA exists (program expects AccountNotInitialized otherwise). Only add create instruction when needed to stay under tx size limit.
     const recipientAtaInfo = await connection.getAccountInfo(recipientAta);
@@ -180,8 +170,7 @@ router.post('/', async (req, res) => {
       TOKEN_PROGRAM_ID,
       ASSOCIATED_TOKEN_PROGRAM_ID
     );
-    const treeAta = new PublicKey(body.treeAta!);
-    const feeRecipientAta = new PublicKey(body.feeRecipientTokenAccount!);
+    const { treeAta, feeRecipientTokenAccount: feeRecipientAta } = accounts;
 
     // Validate token accounts so program does not fail with InvalidTokenAccount (0x1781)
     const tokenProgramId = TOKEN_PROGRAM_ID.toBase58();
@@ -212,7 +201,6 @@ router.post('/', async (req, res) => {
       ASSOCIATED_TOKEN_PROGRAM_ID
     );
     const instructions = [
-      computeIx,
       ...(recipientAtaInfo == null ? [createRecipientAtaIx] : []),
       ...(signerAtaInfo == null ? [createSignerAtaIx] : []),
       withdrawIx,
@@ -230,15 +218,38 @@ router.post('/', async (req, res) => {
       lookupTableAccount = await connection.getAddressLookupTable(config.altAddress);
     }
     const usedAlt = lookupTableAccount.value ? (requestedAltAddress.equals(config.altAddress) ? 'default' : 'requested') : 'none';
+    const lookupTables = lookupTableAccount.value ? [lookupTableAccount.value] : [];
+
+    const MIN_RELAYER_LAMPORTS = 10_000_000; // 0.01 SOL for tx fees and rent
+    const relayerBalance = await connection.getBalance(relayerKeypair.publicKey);
+    if (relayerBalance < MIN_RELAYER_LAMPORTS) {
+      return res.status(503).json({
+        error: 'Relayer has insufficient SOL to pay transaction fees. Fund the relayer wallet with at least 0.01 SOL.',
+        relayerAddress: relayerKeypair.publicKey.toBase58(),
+      });
+    }
+
+    // Size the compute budget by simulation and price it for the accounts this withdraw locks
+    const simulated = await sizeComputeBudget(payer, instructions, lookupTables, [
+      accounts.treeAccount,
+      accounts.nullifier0PDA,
+      accounts.nullifier1PDA,
+    ]);
+    if (simulated.error && !dryRun) {
+      const { status, ...failure } = classifyTransactionError(simulated.error, simulated.logs, true);
+      return res.status(status).json(failure);
+    }
+    const { budget } = simulated;
+    // Creating the recipient's token account is on the relayer; the fee has to cover it
+    const underpaid = await checkRelayerFee(getTokenFromMint(mint)!, ix.fee, recipientAtaInfo != null, body.quoteId, budget);
+    if (underpaid) return res.status(400).json(underpaid);
 
     const { blockhash } = await connection.getLatestBlockhash('confirmed');
     const messageV0 = new TransactionMessage({
       payerKey: payer,
       recentBlockhash: blockhash,
-      instructions,
-    }).compileToV0Message(
-      lookupTableAccount.value ? [lookupTableAccount.value] : []
-    );
+      instructions: [...computeBudgetInstructions(budget), ...instructions],
+    }).compileToV0Message(lookupTables);
 
     const transaction = new VersionedTransaction(messageV0);
     const serialized = transaction.serialize();
@@ -258,33 +269,26 @@ router.post('/', async (req, res) => {
       });
     }
 
-    const MIN_RELAYER_LAMPORTS = 10_000_000; // 0.01 SOL for tx fees and rent
-    const relayerBalance = await connection.getBalance(relayerKeypair.publicKey);
-    if (relayerBalance < MIN_RELAYER_LAMPORTS) {
-      return res.status(503).json({
-        error: 'Relayer has insufficient SOL to pay transaction fees. Fund the relayer wallet with at least 0.01 SOL.',
-        relayerAddress: relayerKeypair.publicKey.toBase58(),
-      });
-    }
+    if (dryRun) return res.json({ ...(await simulateRelay(transaction)), ...budget });
     transaction.sign([relayerKeypair]);
-    const signature = await connection.sendTransaction(transaction, {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
-      maxRetries: 3,
+    const { submissionId, signature } = await relayTransaction(transaction, {
+      kind: 'withdraw_spl',
+      token: getTokenFromMint(mint)!,
+      root: ix.root,
+      relayerSigned: true,
     });
-    return res.json({ signature, success: true });
+    return res.json({ signature, submissionId, success: true, ...budget });
   } catch (error: unknown) {
     console.error('Withdraw SPL error:', error);
-    const err = error as { message?: string; transactionMessage?: string };
-    const msg = err.transactionMessage ?? err.message ?? '';
-    if (msg.includes('insufficient funds for rent')) {
-      return res.status(503).json({
-        error: 'Relayer has insufficient SOL for transaction fees and rent. Fund the relayer wallet.',
-      });
+    if (error instanceof PriceUnavailableError) {
+      return res.status(503).json({ error: error.message, code: 'PRICE_UNAVAILABLE' });
+    }
+    const failure = classifyRelayError(error, true);
+    if (failure) {
+      const { status, ...body } = failure;
+      return res.status(status).json(body);
     }
-    const message =
-      err.transactionMessage ?? (error instanceof Error ? error.message : 'Failed to process withdraw');
-    res.status(500).json({ error: message });
+    res.status(500).json({ error: 'Failed to process withdraw' });
   }
 });
 
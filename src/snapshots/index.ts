@@ -0,0 +1,211 @@
+/**
+ * Binary snapshots of each token's finalized leaves, so new wallets download the pool once
+ * instead of paging hex JSON from /utxos/range.
+ *
+ * Format (version 1), integers little-endian:
+ *   magic "SHSN" | u8 version | 3 zero bytes | u32 count | 32-byte root (big-endian field element)
+ *   then `count` records: 32-byte commitment (big-endian) | u32 length | encrypted_output bytes
+ * Record i is leaf i; `root` is the Poseidon root of leaves 0..count-1. The snapshot id is the
+ * SHA-256 of the file, so identical content gets the same id on every replica. The checkpoint is
+ * the finalized tree size rounded down to SNAPSHOT_STRIDE, so replicas land on the same ones.
+ *
+ * Every SNAPSHOT_INTERVAL_MS a new snapshot is written to SNAPSHOT_DIR/<token>/ (raw, .gz, .br)
+ * when the checkpoint moved; the newest SNAPSHOT_KEEP are kept.
+ */
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { promisify } from 'util';
+import { brotliCompress, constants as zlibConstants, gzip } from 'zlib';
+import { config } from '../config/env.js';
+import { getStore, visibleStatuses } from '../db/index.js';
+import { FIELD_SIZE } from '../lib/field.js';
+import { createMerkleTree } from '../lib/merkleTree.js';
+import { SUPPORTED_TOKENS } from '../lib/mints.js';
+import { syncTree } from '../merkle/index.js';
+
+const gzipAsync = promisify(gzip);
+const brotliAsync = promisify(brotliCompress);
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+const MAGIC = Buffer.from('SHSN', 'ascii');
+const HEADER_SIZE = 4 + 4 + 4 + 32;
+const PAGE_SIZE = 1000;
+const SNAPSHOT_KEEP = 3;
+
+export type SnapshotEncoding = 'br' | 'gzip' | 'identity';
+
+const FILE_SUFFIX: Record<SnapshotEncoding, string> = { identity: '.bin', gzip: '.bin.gz', br: '.bin.br' };
+
+export interface SnapshotMeta {
+  id: string;
+  token: string;
+  format: number;
+  /** Leaves 0..count-1 are included; continue with /utxos/range?after=count-1 */
+  count: number;
+  root: string;
+  /** SHA-256 of the uncompressed file (equals id) */
+  sha256: string;
+  createdAt: string;
+  /** Byte size per encoding */
+  sizes: Record<SnapshotEncoding, number>;
+}
+
+/** Latest snapshot per token, as last written or loaded from disk */
+const latest = new Map<string, SnapshotMeta>();
+
+function tokenDir(token: string): string {
+  return join(config.snapshotDir, token);
+}
+
+function bytes32(value: bigint): Buffer {
+  return Buffer.from(value.toString(16).padStart(64, '0'), 'hex');
+}
+
+/** Build the snapshot file for the token's finalized leaves 0..count-1. */
+async function buildSnapshot(token: string, count: number): Promise<{ body: Buffer; root: string }> {
+  const store = getStore();
+  const tree = createMerkleTree();
+  const parts: Buffer[] = [Buffer.alloc(HEADER_SIZE)];
+  let next = 0;
+  while (next < count) {
+    const rows = await store.listCommitments({
+      token,
+      statuses: visibleStatuses('finalized'),
+      fromIndex: next,
+      toIndex: count,
+      limit: PAGE_SIZE,
+    });
+    const leaves: bigint[] = [];
+    for (const row of rows) {
+      if (row.commitment_index < next) continue;
+      if (row.commitment_index > next) throw new Error(`Snapshot [${token}]: missing leaf ${next}`);
+      const leaf = BigInt(row.commitment);
+      if (leaf >= FIELD_SIZE) throw new Error(`Snapshot [${token}]: leaf ${next} is not a field element`);
+      const output = Buffer.from(row.encrypted_output, 'hex');
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(output.length);
+      parts.push(bytes32(leaf), length, output);
+      leaves.push(leaf);
+      next++;
+    }
+    if (leaves.length === 0) throw new Error(`Snapshot [${token}]: missing leaf ${next}`);
+    tree.insertMany(leaves);
+    // Hashing a page takes a while; let requests through between pages
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  const root = tree.root();
+  const header = parts[0];
+  MAGIC.copy(header, 0);
+  header.writeUInt8(SNAPSHOT_FORMAT_VERSION, 4);
+  header.writeUInt32LE(count, 8);
+  bytes32(root).copy(header, 12);
+  return { body: Buffer.concat(parts), root: root.toString() };
+}
+
+/** Write all encodings (temp file + rename, so readers never see partial files), then metadata. */
+async function writeSnapshot(token: string, count: number): Promise<SnapshotMeta> {
+  const { body, root } = await buildSnapshot(token, count);
+  const id = createHash('sha256').update(body).digest('hex');
+  const [gz, br] = await Promise.all([
+    gzipAsync(body, { level: 9 }),
+    brotliAsync(body, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 9 } }),
+  ]);
+  const dir = tokenDir(token);
+  await mkdir(dir, { recursive: true });
+  const files: Record<SnapshotEncoding, Buffer> = { identity: body, gzip: gz, br };
+  for (const [encoding, data] of Object.entries(files) as Array<[SnapshotEncoding, Buffer]>) {
+    const path = join(dir, id + FILE_SUFFIX[encoding]);
+    await writeFile(`${path}.tmp`, data);
+    await rename(`${path}.tmp`, path);
+  }
+  const meta: SnapshotMeta = {
+    id,
+    token,
+    format: SNAPSHOT_FORMAT_VERSION,
+    count,
+    root,
+    sha256: id,
+    createdAt: new Date().toISOString(),
+    sizes: { identity: body.length, gzip: gz.length, br: br.length },
+  };
+  await writeFile(join(dir, `${id}.json`), JSON.stringify(meta));
+  await writeFile(join(dir, 'latest.json.tmp'), JSON.stringify(meta));
+  await rename(join(dir, 'latest.json.tmp'), join(dir, 'latest.json'));
+  return meta;
+}
+
+/** Delete all but the newest SNAPSHOT_KEEP snapshots of a token */
+async function pruneSnapshots(token: string): Promise<void> {
+  const dir = tokenDir(token);
+  const metas: SnapshotMeta[] = [];
+  for (const file of await readdir(dir)) {
+    if (!/^[0-9a-f]{64}\.json$/.test(file)) continue;
+    metas.push(JSON.parse(await readFile(join(dir, file), 'utf-8')) as SnapshotMeta);
+  }
+  metas.sort((a, b) => b.count - a.count);
+  for (const meta of metas.slice(SNAPSHOT_KEEP)) {
+    for (const suffix of [...Object.values(FILE_SUFFIX), '.json']) {
+      await rm(join(dir, meta.id + suffix), { force: true });
+    }
+  }
+}
+
+/** Metadata of the token's newest snapshot, or null if none was written yet */
+export async function latestSnapshot(token: string): Promise<SnapshotMeta | null> {
+  const cached = latest.get(token);
+  if (cached) return cached;
+  try {
+    const meta = JSON.parse(await readFile(join(tokenDir(token), 'latest.json'), 'utf-8')) as SnapshotMeta;
+    latest.set(token, meta);
+    return meta;
+  } catch {
+    return null;
+  }
+}
+
+/** Path of a snapshot file in the given encoding, or null if this node does not have it */
+export async function snapshotFile(token: string, id: string): Promise<{ meta: SnapshotMeta; path(encoding: SnapshotEncoding): string } | null> {
+  if (!/^[0-9a-f]{64}$/.test(id)) return null;
+  try {
+    const meta = JSON.parse(await readFile(join(tokenDir(token), `${id}.json`), 'utf-8')) as SnapshotMeta;
+    return { meta, path: (encoding) => join(tokenDir(token), id + FILE_SUFFIX[encoding]) };
+  } catch {
+    return null;
+  }
+}
+
+/** Write a new snapshot for the token if its checkpoint moved. Returns the latest snapshot. */
+export async function refreshSnapshot(token: string): Promise<SnapshotMeta | null> {
+  const stride = Math.max(1, config.snapshotStride);
+  const tree = await syncTree(token, 'finalized');
+  const count = Math.floor(tree.size() / stride) * stride;
+  const current = await latestSnapshot(token);
+  if (count === 0 || (current && current.count >= count)) return current;
+  const meta = await writeSnapshot(token, count);
+  latest.set(token, meta);
+  await pruneSnapshots(token);
+  console.log(`Snapshot [${token}]: ${meta.count} leaves, ${meta.sizes.br} bytes (br), id ${meta.id}`);
+  return meta;
+}
+
+/** Refresh every token's snapshot now and every SNAPSHOT_INTERVAL_MS (0 disables). Returns a stop function. */
+export function startSnapshots(): () => void {
+  if (config.snapshotIntervalMs <= 0) return () => {};
+  let running = false;
+  const run = async (): Promise<void> => {
+    if (running) return;
+    running = true;
+    try {
+      for (const token of SUPPORTED_TOKENS) {
+        await refreshSnapshot(token).catch((e) => console.error(`Snapshot [${token}] failed:`, e));
+      }
+    } finally {
+      running = false;
+    }
+  };
+  run();
+  const timer = setInterval(run, config.snapshotIntervalMs);
+  return () => clearInterval(timer);
+}
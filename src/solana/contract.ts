@@ -1,8 +1,12 @@
-import { PublicKey } from '@solana/web3.js';
+import { createHash } from 'crypto';
+import { Commitment, PublicKey } from '@solana/web3.js';
 import { getConnection } from './connection.js';
 import { config } from '../config/env.js';
+import { decodeAccount, field, hasIdl, IdlDecodeError } from './idl.js';
 const MERKLE_TREE_SEED = Buffer.from('merkle_tree');
 const GLOBAL_CONFIG_SEED = Buffer.from('global_config');
+const TREE_TOKEN_SEED = Buffer.from('tree_token');
+const NULLIFIER_SEEDS = [Buffer.from('nullifier0'), Buffer.from('nullifier1')] as const;
 const SOL_MINT = new PublicKey('11111111111111111111111111111111');
 
 interface GlobalConfigLayout {
@@ -37,6 +41,35 @@ export function getGlobalConfigPDA(): PublicKey {
   return pda;
 }
 
+/** PDA holding the SOL pool's lamports (tree_token_account in transact) */
+export function getTreeTokenAccountPDA(): PublicKey {
+  const [pda] = PublicKey.findProgramAddressSync([TREE_TOKEN_SEED], config.programId);
+  return pda;
+}
+
+/**
+ * Nullifier PDA created when a note is spent: seeds ["nullifier0", inputNullifiers[0]] for the first
+ * input and ["nullifier1", inputNullifiers[1]] for the second. The transact instruction also passes
+ * the swapped pairs (nullifier2/3) and requires them not to exist, so a nullifier is spent iff either
+ * PDA for its bytes exists.
+ */
+export function getNullifierPDA(seedIndex: 0 | 1, nullifier: Uint8Array): PublicKey {
+  const [pda] = PublicKey.findProgramAddressSync([NULLIFIER_SEEDS[seedIndex], Buffer.from(nullifier)], config.programId);
+  return pda;
+}
+
+/** Anchor account discriminator = first 8 bytes of sha256("account:AccountName"). */
+function accountDiscriminator(accountName: string): Buffer {
+  return createHash('sha256').update(`account:${accountName}`).digest().subarray(0, 8);
+}
+
+/** Built-in layouts only: the IDL decoder checks discriminators itself. */
+function assertAccountDiscriminator(accountName: string, data: Buffer): void {
+  if (!data.subarray(0, 8).equals(accountDiscriminator(accountName))) {
+    throw new IdlDecodeError('discriminator', `account ${accountName}`, 'unexpected discriminator for built-in layout');
+  }
+}
+
 export async function fetchGlobalConfig(): Promise<{
   depositFeeRate: number;
   withdrawalFeeRate: number;
@@ -49,6 +82,15 @@ export async function fetchGlobalConfig(): Promise<{
     throw new Error('Global config account not found');
   }
   const data = accountInfo.data;
+  if (hasIdl()) {
+    const { data: account } = decodeAccount('GlobalConfig', data);
+    return {
+      depositFeeRate: field<number>(account, 'deposit_fee_rate'),
+      withdrawalFeeRate: field<number>(account, 'withdrawal_fee_rate'),
+      feeErrorMargin: field<number>(account, 'fee_error_margin'),
+    };
+  }
+  assertAccountDiscriminator('GlobalConfig', data);
   if (data.length < 8 + 32 + 2 + 2 + 2 + 1) {
     throw new Error('Invalid global config data');
   }
@@ -70,12 +112,14 @@ const TREE_SUBTREES_LEN = 26 * 32; // 832
 const TREE_ROOT_LEN = 32;
 const TREE_ROOT_HISTORY_LEN = 100 * 32; // 3200
 
-// With 8-byte discriminator: authority at 8, next_index at 40, subtrees at 48, root at 880, root_history at 912, root_index at 4112
+// With 8-byte discriminator: authority at 8, next_index at 40, subtrees at 48, root at 880, root_history at 912, root_index at 4112,
+// max_deposit_amount at 4120
 const TREE_NEXT_INDEX_OFF = TREE_DISCRIMINATOR + TREE_AUTHORITY_LEN; // 40
 const TREE_SUBTREES_OFF = TREE_NEXT_INDEX_OFF + TREE_NEXT_INDEX_LEN; // 48
 const TREE_ROOT_OFF = TREE_SUBTREES_OFF + TREE_SUBTREES_LEN; // 880
 const TREE_ROOT_HISTORY_OFF = TREE_ROOT_OFF + TREE_ROOT_LEN; // 912
 const TREE_ROOT_INDEX_OFF = TREE_ROOT_HISTORY_OFF + TREE_ROOT_HISTORY_LEN; // 4112
+const TREE_MAX_DEPOSIT_AMOUNT_OFF = TREE_ROOT_INDEX_OFF + 8; // 4120
 
 /** Convert 32-byte root to decimal. Chain stores same BE order as instruction (leInt2Buff then reverse in prover). */
 function bytes32ToDecimalString(buf: Buffer): string {
@@ -88,33 +132,106 @@ export type MerkleTreeState = {
   subtrees: string[];
 };
 
-/** Returns null when the tree account does not exist (e.g. SPL tree never initialized). */
-export async function fetchMerkleTreeState(mint?: PublicKey): Promise<MerkleTreeState | null> {
+const ROOT_HISTORY_SIZE = 100;
+
+/** The tree account fields the API reads, whichever decoder produced them. */
+interface TreeAccountFields {
+  nextIndex: number;
+  rootIndex: number;
+  subtrees: Buffer[];
+  rootHistory: Buffer[];
+  maxDepositAmount: bigint;
+}
+
+function readTreeAccount(data: Buffer): TreeAccountFields {
+  if (hasIdl()) {
+    const { data: account } = decodeAccount('MerkleTreeAccount', data);
+    const rootHistory = field<number[][]>(account, 'root_history').map((r) => Buffer.from(r));
+    return {
+      nextIndex: Number(field<{ toString(): string }>(account, 'next_index').toString()),
+      rootIndex: Number(field<{ toString(): string }>(account, 'root_index').toString()) % rootHistory.length,
+      subtrees: field<number[][]>(account, 'subtrees').map((r) => Buffer.from(r)),
+      rootHistory,
+      maxDepositAmount: BigInt(field<{ toString(): string }>(account, 'max_deposit_amount').toString()),
+    };
+  }
+  assertAccountDiscriminator('MerkleTreeAccount', data);
+  if (data.length < TREE_MAX_DEPOSIT_AMOUNT_OFF + 8) {
+    throw new Error('Merkle tree account too small');
+  }
+  const slice32 = (off: number) => Buffer.from(data.subarray(off, off + 32));
+  return {
+    nextIndex: Number(data.readBigUInt64LE(TREE_NEXT_INDEX_OFF)),
+    rootIndex: Number(data.readBigUInt64LE(TREE_ROOT_INDEX_OFF)) % ROOT_HISTORY_SIZE,
+    subtrees: Array.from({ length: 26 }, (_, i) => slice32(TREE_SUBTREES_OFF + i * 32)),
+    rootHistory: Array.from({ length: ROOT_HISTORY_SIZE }, (_, i) => slice32(TREE_ROOT_HISTORY_OFF + i * 32)),
+    maxDepositAmount: data.readBigUInt64LE(TREE_MAX_DEPOSIT_AMOUNT_OFF),
+  };
+}
+
+/** Decoded tree account, or null when the account does not exist (e.g. SPL tree never initialized). */
+async function fetchTreeAccount(mint?: PublicKey, commitment?: Commitment): Promise<TreeAccountFields | null> {
   const connection = getConnection();
   const treePDA = getTreeAccountPDA(mint);
-  const accountInfo = await connection.getAccountInfo(treePDA);
+  const accountInfo = await connection.getAccountInfo(treePDA, commitment);
   if (!accountInfo?.data) {
     return null;
   }
-  const data = accountInfo.data;
+  return readTreeAccount(accountInfo.data);
+}
 
-  if (data.length < TREE_ROOT_INDEX_OFF + 8) {
-    throw new Error('Merkle tree account too small');
+/**
+ * Returns null when the tree account does not exist (e.g. SPL tree never initialized).
+ * Pass commitment 'finalized' to read the tree as of the last rooted slot.
+ */
+export async function fetchMerkleTreeState(mint?: PublicKey, commitment?: Commitment): Promise<MerkleTreeState | null> {
+  const account = await fetchTreeAccount(mint, commitment);
+  if (account === null) {
+    return null;
   }
+  // Return root from root_history[root_index] — exactly what the program checks in is_known_root()
+  return {
+    root: bytes32ToDecimalString(account.rootHistory[account.rootIndex]),
+    nextIndex: account.nextIndex,
+    subtrees: account.subtrees.map(bytes32ToDecimalString),
+  };
+}
 
-  const nextIndex = Number(data.readBigUInt64LE(TREE_NEXT_INDEX_OFF));
-  const rootIndex = Number(data.readBigUInt64LE(TREE_ROOT_INDEX_OFF)) % 100;
+/** Largest ext_amount the tree accepts in one deposit (lamports or token base units); null when the tree does not exist. */
+export async function fetchMaxDepositAmount(mint?: PublicKey, commitment?: Commitment): Promise<bigint | null> {
+  const account = await fetchTreeAccount(mint, commitment);
+  return account === null ? null : account.maxDepositAmount;
+}
 
-  // Return root from root_history[root_index] — exactly what the program checks in is_known_root()
-  const rootHistoryOff = TREE_ROOT_HISTORY_OFF + rootIndex * 32;
-  const rootBytes = Buffer.from(data.slice(rootHistoryOff, rootHistoryOff + 32));
-  const rootStr = bytes32ToDecimalString(rootBytes);
-
-  const subtrees: string[] = [];
-  for (let i = 0; i < 26; i++) {
-    const off = TREE_SUBTREES_OFF + i * 32;
-    const subBytes = Buffer.from(data.slice(off, off + 32));
-    subtrees.push(bytes32ToDecimalString(subBytes));
+export type RootHistory = {
+  rootIndex: number;
+  nextIndex: number;
+  historySize: number;
+  /** roots[0] is the current root, roots[k] the root k insertions ago. Unwritten slots are omitted. */
+  roots: string[];
+};
+
+/** Walks root_history backwards from root_index, the same order is_known_root() checks. */
+export async function fetchRootHistory(mint?: PublicKey, commitment?: Commitment): Promise<RootHistory | null> {
+  const account = await fetchTreeAccount(mint, commitment);
+  if (account === null) {
+    return null;
   }
-  return { root: rootStr, nextIndex, subtrees };
+  const historySize = account.rootHistory.length;
+  const roots: string[] = [];
+  for (let age = 0; age < historySize; age++) {
+    const rootBytes = account.rootHistory[(account.rootIndex - age + historySize) % historySize];
+    // is_known_root() never accepts the zero root, and zero slots have not been written yet
+    if (rootBytes.every((b) => b === 0)) break;
+    roots.push(bytes32ToDecimalString(rootBytes));
+  }
+  return { rootIndex: account.rootIndex, nextIndex: account.nextIndex, historySize, roots };
+}
+
+/**
+ * Insertions since `root` was current (0 = current root), or -1 if it is no longer accepted.
+ * A root with age k survives historySize - 1 - k more insertions.
+ */
+export function getRootAge(history: RootHistory, root: string): number {
+  return history.roots.indexOf(root);
 }
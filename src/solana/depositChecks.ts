@@ -0,0 +1,161 @@
+/**
+ * Checks run on a client-signed deposit before /deposit and /deposit/spl relay it, so the relay
+ * only ever broadcasts Shade deposits. The transaction may hold compute budget instructions, creation
+ * of the sender's own token account for the pool mint (SPL deposits) and exactly one transact /
+ * transact_spl instruction, signed by the sender, for the tree of the route's pool, and within the
+ * tree's max deposit amount.
+ */
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  PublicKey,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { config } from '../config/env.js';
+import { getConnection } from './connection.js';
+import { fetchMaxDepositAmount, getTreeAccountPDA } from './contract.js';
+import { IdlDecodeError } from './idl.js';
+import {
+  decodeTransact,
+  TRANSACT_ACCOUNT_SIGNER,
+  TRANSACT_ACCOUNT_TREE,
+  TRANSACT_SPL_ACCOUNT_MINT,
+  TransactInstruction,
+} from './instructions.js';
+
+/** Associated token program: Create (empty data or 0) and CreateIdempotent (1); not RecoverNested */
+const ATA_CREATE_INSTRUCTIONS = new Set([0, 1]);
+/** Create / CreateIdempotent accounts: payer, associated account, owner, mint, system, token program */
+const ATA_CREATE_ACCOUNT_ADDRESS = 1;
+const ATA_CREATE_ACCOUNT_OWNER = 2;
+const ATA_CREATE_ACCOUNT_MINT = 3;
+
+export interface DepositCheckFailure {
+  error: string;
+  code: string;
+  [detail: string]: unknown;
+}
+
+export interface DepositExpectation {
+  sender: PublicKey;
+  /** Pool mint for /deposit/spl; undefined for SOL */
+  mint?: PublicKey;
+}
+
+function decodeDeposit(data: Uint8Array): TransactInstruction | null {
+  try {
+    return decodeTransact(data);
+  } catch (e) {
+    if (e instanceof IdlDecodeError) return null;
+    throw e;
+  }
+}
+
+/** null when `transaction` is a deposit the relay may send; otherwise why not. Reads lookup tables and the tree account. */
+export async function checkDeposit(
+  transaction: VersionedTransaction,
+  expected: DepositExpectation
+): Promise<DepositCheckFailure | null> {
+  const connection = getConnection();
+  const { message } = transaction;
+  const lookupTables: AddressLookupTableAccount[] = [];
+  for (const lookup of message.addressTableLookups) {
+    const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!value) {
+      return {
+        error: 'Address lookup table not found',
+        code: 'LOOKUP_TABLE_NOT_FOUND',
+        lookupTable: lookup.accountKey.toBase58(),
+      };
+    }
+    lookupTables.push(value);
+  }
+  const keys = message.getAccountKeys({ addressLookupTableAccounts: lookupTables });
+
+  const senderIndex = message.staticAccountKeys.findIndex((key) => key.equals(expected.sender));
+  if (senderIndex < 0 || !message.isAccountSigner(senderIndex)) {
+    return { error: 'senderAddress does not sign the transaction', code: 'SENDER_NOT_SIGNER' };
+  }
+
+  const senderAta = expected.mint ? getAssociatedTokenAddressSync(expected.mint, expected.sender, true) : undefined;
+  const expectedName = expected.mint ? 'transact_spl' : 'transact';
+  let deposit: { ix: TransactInstruction; accounts: number[] } | null = null;
+  for (const [index, compiled] of message.compiledInstructions.entries()) {
+    const programId = keys.get(compiled.programIdIndex)!;
+    if (programId.equals(ComputeBudgetProgram.programId)) continue;
+    if (
+      expected.mint &&
+      senderAta &&
+      programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) &&
+      ATA_CREATE_INSTRUCTIONS.has(compiled.data[0] ?? 0)
+    ) {
+      const account = (position: number) => {
+        const index = compiled.accountKeyIndexes[position];
+        return index === undefined ? undefined : keys.get(index);
+      };
+      if (
+        !account(ATA_CREATE_ACCOUNT_ADDRESS)?.equals(senderAta) ||
+        !account(ATA_CREATE_ACCOUNT_OWNER)?.equals(expected.sender) ||
+        !account(ATA_CREATE_ACCOUNT_MINT)?.equals(expected.mint)
+      ) {
+        return {
+          error: `Instruction ${index} creates a token account other than the sender's for this mint`,
+          code: 'UNEXPECTED_TOKEN_ACCOUNT',
+          instruction: index,
+          expected: senderAta.toBase58(),
+        };
+      }
+      continue;
+    }
+    if (!programId.equals(config.programId)) {
+      return {
+        error: `Instruction ${index} is not allowed in a deposit`,
+        code: 'UNEXPECTED_INSTRUCTION',
+        instruction: index,
+        programId: programId.toBase58(),
+      };
+    }
+    if (deposit) {
+      return { error: 'Transaction holds more than one Shade instruction', code: 'MULTIPLE_DEPOSIT_INSTRUCTIONS' };
+    }
+    const ix = decodeDeposit(compiled.data);
+    if (!ix || ix.name !== expectedName) {
+      return { error: `Instruction ${index} is not a ${expectedName} instruction`, code: 'INVALID_DEPOSIT_INSTRUCTION' };
+    }
+    deposit = { ix, accounts: compiled.accountKeyIndexes };
+  }
+  if (!deposit) {
+    return { error: `Transaction holds no ${expectedName} instruction`, code: 'NO_DEPOSIT_INSTRUCTION' };
+  }
+
+  const { ix, accounts } = deposit;
+  const accountAt = (position: number) => (accounts[position] === undefined ? undefined : keys.get(accounts[position]));
+  if (ix.extAmount <= 0n) {
+    return { error: 'ext_amount must be positive on a deposit', code: 'NOT_A_DEPOSIT' };
+  }
+  if (!accountAt(TRANSACT_ACCOUNT_SIGNER[ix.name])?.equals(expected.sender)) {
+    return { error: 'The deposit instruction is not signed by senderAddress', code: 'SENDER_NOT_SIGNER' };
+  }
+  if (expected.mint && !accountAt(TRANSACT_SPL_ACCOUNT_MINT)?.equals(expected.mint)) {
+    return { error: 'Deposit mint does not match mintAddress', code: 'MINT_MISMATCH', expected: expected.mint.toBase58() };
+  }
+  const tree = getTreeAccountPDA(expected.mint);
+  if (!accountAt(TRANSACT_ACCOUNT_TREE)?.equals(tree)) {
+    return { error: 'Tree account does not match the pool', code: 'TREE_MISMATCH', expected: tree.toBase58() };
+  }
+
+  const maxDepositAmount = await fetchMaxDepositAmount(expected.mint, 'confirmed');
+  if (maxDepositAmount === null) {
+    return { error: 'Merkle tree not initialized for this token', code: 'TREE_NOT_INITIALIZED' };
+  }
+  if (ix.extAmount > maxDepositAmount) {
+    return {
+      error: 'Deposit exceeds the pool deposit limit',
+      code: 'DEPOSIT_LIMIT_EXCEEDED',
+      amount: ix.extAmount.toString(),
+      maxDepositAmount: maxDepositAmount.toString(),
+    };
+  }
+  return null;
+}
@@ -0,0 +1,267 @@
+/**
+ * Shade program IDL decoding (events, accounts, instruction args) via @coral-xyz/anchor.
+ *
+ * IDLs are loaded from IDL_PATHS (JSON files) and/or the on-chain IDL account. Several versions can
+ * be loaded at once during a program upgrade; each payload is decoded with the first version whose
+ * layout reproduces it byte for byte. A matching discriminator whose layout does not fit, or an
+ * account with an unknown discriminator, raises IdlDecodeError instead of yielding garbage.
+ * With no IDL loaded, callers fall back to their built-in layouts.
+ */
+import { readFileSync } from 'fs';
+import { BorshCoder, Idl, LangErrorCode, LangErrorMessage, Program, Provider } from '@coral-xyz/anchor';
+import { config } from '../config/env.js';
+import { getConnection } from './connection.js';
+
+export class IdlDecodeError extends Error {
+  constructor(
+    public readonly kind: 'discriminator' | 'layout',
+    public readonly target: string,
+    detail: string
+  ) {
+    super(`Shade ${target}: ${kind} mismatch (${detail}). Is the IDL for the deployed program version loaded?`);
+    this.name = 'IdlDecodeError';
+  }
+}
+
+interface IdlVersion {
+  /** idl.metadata.version, plus where it came from */
+  label: string;
+  idl: Idl;
+  coder: BorshCoder;
+}
+
+export interface Decoded<T = Record<string, unknown>> {
+  name: string;
+  data: T;
+  idlVersion: string;
+}
+
+let versions: IdlVersion[] = [];
+
+function addIdl(idl: Idl, source: string): void {
+  if (!idl.address || !idl.metadata?.spec) {
+    throw new Error(`IDL from ${source} uses the legacy (pre-0.30) format; convert it with \`anchor idl convert\``);
+  }
+  if (idl.address !== config.programId.toBase58()) {
+    throw new Error(`IDL from ${source} is for program ${idl.address}, expected ${config.programId.toBase58()}`);
+  }
+  const label = `${idl.metadata.version} (${source})`;
+  versions.push({ label, idl, coder: new BorshCoder(idl) });
+  console.log(`Shade IDL: loaded ${idl.metadata.name} ${label}`);
+}
+
+/** Load every configured IDL. Safe to call again; replaces what was loaded. */
+export async function loadIdls(): Promise<void> {
+  versions = [];
+  for (const path of config.idlPaths) {
+    addIdl(JSON.parse(readFileSync(path, 'utf-8')) as Idl, path);
+  }
+  if (config.idlFromChain) {
+    try {
+      const idl = await Program.fetchIdl(config.programId, { connection: getConnection() } as Provider);
+      if (idl) {
+        addIdl(idl, 'on-chain');
+      } else {
+        console.warn('Shade IDL: no on-chain IDL account for program');
+      }
+    } catch (e) {
+      console.error('Shade IDL: failed to load on-chain IDL:', e);
+    }
+  }
+  if (versions.length === 0) {
+    console.warn('Shade IDL: none loaded; using built-in layouts');
+  }
+}
+
+export function hasIdl(): boolean {
+  return versions.length > 0;
+}
+
+/** anchor's coders encode into a fixed 1000-byte buffer; larger payloads are checked by length instead. */
+const MAX_ROUND_TRIP_BYTES = 1000;
+
+type IdlType = Idl['instructions'][number]['args'][number]['type'];
+type IdlTypeDef = NonNullable<Idl['types']>[number];
+type IdlDefinedFields = Extract<IdlTypeDef['type'], { kind: 'struct' }>['fields'];
+
+const BORSH_FIXED_SIZES: Record<string, number> = {
+  bool: 1, u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, f32: 4, u64: 8, i64: 8, f64: 8,
+  u128: 16, i128: 16, u256: 32, i256: 32, pubkey: 32,
+};
+
+function borshFieldsEnd(idl: Idl, fields: IdlDefinedFields, data: Buffer, offset: number): number {
+  for (const f of fields ?? []) {
+    offset = borshTypeEnd(idl, typeof f === 'object' && 'name' in f && 'type' in f ? f.type : (f as IdlType), data, offset);
+  }
+  return offset;
+}
+
+/**
+ * Offset just past the borsh value of `type` that starts at `offset`, reading lengths, option tags
+ * and enum variants the way anchor's decoder does. Throws when the data runs short or the type
+ * cannot be sized (generics, coption, non-borsh serialization).
+ */
+function borshTypeEnd(idl: Idl, type: IdlType, data: Buffer, offset: number): number {
+  const need = (bytes: number): number => {
+    if (offset + bytes > data.length) throw new RangeError(`borsh value runs past ${data.length} bytes`);
+    return offset + bytes;
+  };
+  if (typeof type === 'string') {
+    if (type === 'bytes' || type === 'string') {
+      const length = data.readUInt32LE(need(4) - 4);
+      offset += 4;
+      return need(length);
+    }
+    if (!(type in BORSH_FIXED_SIZES)) throw new Error(`cannot size ${type}`);
+    return need(BORSH_FIXED_SIZES[type]);
+  }
+  if ('option' in type) {
+    const tag = data[need(1) - 1];
+    if (tag === 0) return offset + 1;
+    if (tag !== 1) throw new Error(`invalid option tag ${tag}`);
+    return borshTypeEnd(idl, type.option, data, offset + 1);
+  }
+  if ('vec' in type) {
+    const count = data.readUInt32LE(need(4) - 4);
+    offset += 4;
+    if (count > data.length - offset) throw new RangeError(`vec of ${count} runs past ${data.length} bytes`);
+    for (let i = 0; i < count; i++) offset = borshTypeEnd(idl, type.vec, data, offset);
+    return offset;
+  }
+  if ('array' in type) {
+    const [inner, length] = type.array;
+    if (typeof length !== 'number') throw new Error('cannot size a generic array length');
+    for (let i = 0; i < length; i++) offset = borshTypeEnd(idl, inner, data, offset);
+    return offset;
+  }
+  if ('defined' in type) {
+    const def = idl.types?.find((t) => t.name === type.defined.name);
+    if (!def || def.generics?.length || type.defined.generics?.length || (def.serialization ?? 'borsh') !== 'borsh') {
+      throw new Error(`cannot size ${type.defined.name}`);
+    }
+    if (def.type.kind === 'struct') return borshFieldsEnd(idl, def.type.fields, data, offset);
+    if (def.type.kind === 'type') return borshTypeEnd(idl, def.type.alias, data, offset);
+    const variant = def.type.variants[data[need(1) - 1]];
+    if (!variant) throw new Error(`invalid ${def.name} variant ${data[offset]}`);
+    return borshFieldsEnd(idl, variant.fields, data, offset + 1);
+  }
+  throw new Error(`cannot size ${JSON.stringify(type)}`);
+}
+
+/**
+ * Require the decoded value to account for every original byte (borsh decode ignores trailing
+ * bytes): re-encode it and compare, or for payloads too large for anchor's encoder, require the
+ * layout to end exactly at the end of the data.
+ */
+function roundTrips(encode: () => Buffer, original: Uint8Array, layoutEnd: () => number): boolean {
+  try {
+    if (original.length > MAX_ROUND_TRIP_BYTES) return layoutEnd() === original.length;
+    return encode().equals(Buffer.from(original));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode an event payload (discriminator + borsh). Returns null when no loaded IDL knows the
+ * discriminator (not a Shade event we track).
+ */
+export function decodeEvent(data: Buffer): Decoded | null {
+  const base64 = data.toString('base64');
+  let matchedName: string | null = null;
+  for (const version of versions) {
+    let event: ReturnType<BorshCoder['events']['decode']>;
+    try {
+      event = version.coder.events.decode(base64);
+    } catch {
+      // Discriminator matched but the fields ran past the data; try the next version
+      matchedName = matchedName ?? 'payload';
+      continue;
+    }
+    if (!event) continue;
+    matchedName = event.name;
+    const disc = version.idl.events!.find((e) => e.name === event.name)!.discriminator;
+    const payload = data.subarray(disc.length);
+    const layoutEnd = () => borshTypeEnd(version.idl, { defined: { name: event.name } }, payload, 0);
+    if (roundTrips(() => version.coder.types.encode(event.name, event.data), payload, layoutEnd)) {
+      return { name: event.name, data: event.data as Record<string, unknown>, idlVersion: version.label };
+    }
+  }
+  if (matchedName) {
+    throw new IdlDecodeError('layout', `event ${matchedName}`, `${data.length} bytes fit no loaded IDL version`);
+  }
+  return null;
+}
+
+/** Decode an account by name; the discriminator and the account size must match a loaded IDL. */
+export function decodeAccount<T = Record<string, unknown>>(accountName: string, data: Buffer): Decoded<T> {
+  let sawName = false;
+  for (const version of versions) {
+    const account = version.idl.accounts?.find((a) => a.name === accountName);
+    if (!account) continue;
+    sawName = true;
+    if (!data.subarray(0, account.discriminator.length).equals(Buffer.from(account.discriminator))) continue;
+    if (data.length < version.coder.accounts.size(accountName)) continue;
+    return {
+      name: accountName,
+      data: version.coder.accounts.decode(accountName, data) as T,
+      idlVersion: version.label,
+    };
+  }
+  throw new IdlDecodeError(
+    sawName ? 'layout' : 'discriminator',
+    `account ${accountName}`,
+    sawName ? `${data.length} bytes / discriminator fit no loaded IDL version` : 'account not in any loaded IDL'
+  );
+}
+
+/** Decode instruction data. Returns null when no loaded IDL knows the discriminator. */
+export function decodeInstruction(data: Uint8Array): Decoded | null {
+  const buf = Buffer.from(data);
+  let matchedName: string | null = null;
+  for (const version of versions) {
+    let ix: ReturnType<BorshCoder['instruction']['decode']>;
+    try {
+      ix = version.coder.instruction.decode(buf);
+    } catch {
+      // Discriminator matched but the args ran past the data; try the next version
+      matchedName = matchedName ?? 'payload';
+      continue;
+    }
+    if (!ix) continue;
+    matchedName = ix.name;
+    const { name } = ix;
+    const instruction = version.idl.instructions.find((i) => i.name === name)!;
+    const layoutEnd = () => borshFieldsEnd(version.idl, instruction.args, buf, instruction.discriminator.length);
+    if (roundTrips(() => version.coder.instruction.encode(name, ix!.data), buf, layoutEnd)) {
+      return { name: ix.name, data: ix.data as Record<string, unknown>, idlVersion: version.label };
+    }
+  }
+  if (matchedName) {
+    throw new IdlDecodeError('layout', `instruction ${matchedName}`, `${buf.length} bytes fit no loaded IDL version`);
+  }
+  return null;
+}
+
+const langErrorNames = new Map(Object.entries(LangErrorCode).map(([name, code]) => [code, name]));
+
+/**
+ * Name and message of a Shade custom error code: the program's own errors from the loaded IDLs
+ * (first version that defines the code), otherwise anchor's framework errors. null when unknown.
+ */
+export function programErrorInfo(code: number): { name: string; message: string | null } | null {
+  for (const version of versions) {
+    const error = version.idl.errors?.find((e) => e.code === code);
+    if (error) return { name: error.name, message: error.msg ?? null };
+  }
+  const name = langErrorNames.get(code);
+  return name ? { name, message: LangErrorMessage.get(code) ?? null } : null;
+}
+
+/** IDL field names are snake_case; anchor clients sometimes camelCase them. Accept either. */
+export function field<T>(obj: Record<string, unknown>, snakeName: string): T {
+  if (snakeName in obj) return obj[snakeName] as T;
+  const camel = snakeName.replace(/_([a-z0-9])/g, (_m, c: string) => c.toUpperCase());
+  if (camel in obj) return obj[camel] as T;
+  throw new IdlDecodeError('layout', 'field', `missing ${snakeName}`);
+}
@@ -0,0 +1,157 @@
+/**
+ * Shade transact instruction layout (Anchor): 8-byte discriminator, then borsh Proof
+ * { proof_a[64], proof_b[128], proof_c[64], root[32], public_amount[32], ext_data_hash[32],
+ *   input_nullifiers[2][32], output_commitments[2][32] }, then ExtDataMinified { ext_amount: i64,
+ *   fee: u64 }, then encrypted_output1 and encrypted_output2 (borsh Vec<u8>: u32 length + bytes).
+ * Field elements are 32-byte big-endian, same as roots and commitments.
+ * When a Shade IDL is loaded the args are decoded with it (../solana/idl.ts) instead of these offsets.
+ */
+import { createHash } from 'crypto';
+import { decodeInstruction, field, hasIdl, IdlDecodeError } from './idl.js';
+
+/** Anchor instruction discriminator = first 8 bytes of sha256("global:<name>"). */
+function instructionDiscriminator(name: string): Buffer {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+}
+
+export const DISCRIMINATOR_TRANSACT = instructionDiscriminator('transact');
+export const DISCRIMINATOR_TRANSACT_SPL = instructionDiscriminator('transact_spl');
+
+const PROOF_OFF = 8;
+const INPUT_NULLIFIERS_OFF = PROOF_OFF + 64 + 128 + 64 + 32 + 32 + 32; // 360
+const OUTPUT_COMMITMENTS_OFF = INPUT_NULLIFIERS_OFF + 2 * 32; // 424
+const EXT_DATA_OFF = OUTPUT_COMMITMENTS_OFF + 2 * 32; // 488
+const ENCRYPTED_OUTPUTS_OFF = EXT_DATA_OFF + 8 + 8; // 504
+
+/** Account positions shared by transact and transact_spl: tree, then nullifier0..3. */
+export const TRANSACT_ACCOUNT_TREE = 0;
+export const TRANSACT_ACCOUNT_NULLIFIER0 = 1;
+export const TRANSACT_ACCOUNT_NULLIFIER1 = 2;
+/** The signing depositor (or relayer, on withdraws) sits at a different position in each instruction. */
+export const TRANSACT_ACCOUNT_SIGNER = { transact: 9, transact_spl: 6 } as const;
+export const TRANSACT_SPL_ACCOUNT_MINT = 7;
+
+export function isTransactInstruction(data: Uint8Array): boolean {
+  if (data.length < OUTPUT_COMMITMENTS_OFF) return false;
+  const disc = Buffer.from(data.subarray(0, 8));
+  return disc.equals(DISCRIMINATOR_TRANSACT) || disc.equals(DISCRIMINATOR_TRANSACT_SPL);
+}
+
+/**
+ * The two input nullifiers as raw 32-byte values, or null if data is not a transact instruction.
+ * Throws IdlDecodeError when a transact instruction does not fit any loaded IDL.
+ */
+export function readInputNullifiers(data: Uint8Array): [Buffer, Buffer] | null {
+  if (hasIdl()) {
+    const ix = decodeInstruction(data);
+    if (!ix || (ix.name !== 'transact' && ix.name !== 'transact_spl')) return null;
+    const nullifiers = field<number[][]>(field<Record<string, unknown>>(ix.data, 'proof'), 'input_nullifiers');
+    return [Buffer.from(nullifiers[0]), Buffer.from(nullifiers[1])];
+  }
+  if (!isTransactInstruction(data)) return null;
+  const buf = Buffer.from(data);
+  return [
+    buf.subarray(INPUT_NULLIFIERS_OFF, INPUT_NULLIFIERS_OFF + 32),
+    buf.subarray(INPUT_NULLIFIERS_OFF + 32, INPUT_NULLIFIERS_OFF + 64),
+  ];
+}
+
+export function bytes32ToDecimal(buf: Uint8Array): string {
+  return BigInt('0x' + Buffer.from(buf).toString('hex')).toString(10);
+}
+
+export function decimalToBytes32(value: string | bigint): Buffer {
+  const hex = BigInt(value).toString(16).padStart(64, '0');
+  return Buffer.from(hex, 'hex');
+}
+
+/** Decoded transact / transact_spl instruction data. Field elements are decimal strings. */
+export interface TransactInstruction {
+  name: 'transact' | 'transact_spl';
+  proofA: Buffer;
+  proofB: Buffer;
+  proofC: Buffer;
+  root: string;
+  publicAmount: string;
+  /** Raw 32 bytes; the program compares it with its own hash modulo the field */
+  extDataHash: Buffer;
+  inputNullifiers: [Buffer, Buffer];
+  outputCommitments: [string, string];
+  /** Signed: negative for withdrawals */
+  extAmount: bigint;
+  fee: bigint;
+  encryptedOutput1: Buffer;
+  encryptedOutput2: Buffer;
+}
+
+function fromIdl(name: 'transact' | 'transact_spl', args: Record<string, unknown>): TransactInstruction {
+  const proof = field<Record<string, unknown>>(args, 'proof');
+  const bytes = (snakeName: string) => Buffer.from(field<number[]>(proof, snakeName));
+  const ext = field<Record<string, unknown>>(args, 'ext_data_minified');
+  const nullifiers = field<number[][]>(proof, 'input_nullifiers');
+  const commitments = field<number[][]>(proof, 'output_commitments');
+  return {
+    name,
+    proofA: bytes('proof_a'),
+    proofB: bytes('proof_b'),
+    proofC: bytes('proof_c'),
+    root: bytes32ToDecimal(bytes('root')),
+    publicAmount: bytes32ToDecimal(bytes('public_amount')),
+    extDataHash: bytes('ext_data_hash'),
+    inputNullifiers: [Buffer.from(nullifiers[0]), Buffer.from(nullifiers[1])],
+    outputCommitments: [bytes32ToDecimal(Buffer.from(commitments[0])), bytes32ToDecimal(Buffer.from(commitments[1]))],
+    // anchor decodes i64/u64 as BN
+    extAmount: BigInt(String(field<unknown>(ext, 'ext_amount'))),
+    fee: BigInt(String(field<unknown>(ext, 'fee'))),
+    encryptedOutput1: Buffer.from(field<Uint8Array>(args, 'encrypted_output1')),
+    encryptedOutput2: Buffer.from(field<Uint8Array>(args, 'encrypted_output2')),
+  };
+}
+
+/**
+ * Decode transact / transact_spl instruction data; null for any other instruction. Throws
+ * IdlDecodeError when the data does not fit the layout exactly (truncated or trailing bytes).
+ */
+export function decodeTransact(data: Uint8Array): TransactInstruction | null {
+  if (hasIdl()) {
+    const ix = decodeInstruction(data);
+    if (!ix || (ix.name !== 'transact' && ix.name !== 'transact_spl')) return null;
+    return fromIdl(ix.name, ix.data);
+  }
+  const buf = Buffer.from(data);
+  const disc = buf.subarray(0, 8);
+  const name = disc.equals(DISCRIMINATOR_TRANSACT) ? 'transact' : disc.equals(DISCRIMINATOR_TRANSACT_SPL) ? 'transact_spl' : null;
+  if (!name) return null;
+  const malformed = (detail: string) => new IdlDecodeError('layout', `instruction ${name}`, `${detail} for built-in layout`);
+
+  let offset = ENCRYPTED_OUTPUTS_OFF;
+  const readVec = (): Buffer => {
+    if (offset + 4 > buf.length) throw malformed(`${buf.length} bytes is too short`);
+    const length = buf.readUInt32LE(offset);
+    const start = offset + 4;
+    if (start + length > buf.length) throw malformed(`${buf.length} bytes is too short`);
+    offset = start + length;
+    return buf.subarray(start, offset);
+  };
+  const encryptedOutput1 = readVec();
+  const encryptedOutput2 = readVec();
+  if (offset !== buf.length) throw malformed(`${buf.length - offset} trailing bytes`);
+
+  const at = (off: number, length: number) => buf.subarray(off, off + length);
+  const rootOff = PROOF_OFF + 64 + 128 + 64;
+  return {
+    name,
+    proofA: at(PROOF_OFF, 64),
+    proofB: at(PROOF_OFF + 64, 128),
+    proofC: at(PROOF_OFF + 192, 64),
+    root: bytes32ToDecimal(at(rootOff, 32)),
+    publicAmount: bytes32ToDecimal(at(rootOff + 32, 32)),
+    extDataHash: at(rootOff + 64, 32),
+    inputNullifiers: [at(INPUT_NULLIFIERS_OFF, 32), at(INPUT_NULLIFIERS_OFF + 32, 32)],
+    outputCommitments: [bytes32ToDecimal(at(OUTPUT_COMMITMENTS_OFF, 32)), bytes32ToDecimal(at(OUTPUT_COMMITMENTS_OFF + 32, 32))],
+    extAmount: buf.readBigInt64LE(EXT_DATA_OFF),
+    fee: buf.readBigUInt64LE(EXT_DATA_OFF + 8),
+    encryptedOutput1,
+    encryptedOutput2,
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Stable, machine-readable codes for why a relayed transaction failed: Shade program errors, anchor
+ * framework errors, system and token program errors (raised directly or through the program's
+ * CPIs) and common RPC preflight failures. The relay routes answer with `{ error, code }` and the
+ * status given here rather than the raw RPC message; anything unmapped stays a generic 500.
+ *
+ * Shade errors are matched by name (from the loaded IDL, else the built-in list below), so a
+ * program upgrade that renumbers them only needs its IDL.
+ */
+import { LangErrorCode } from '@coral-xyz/anchor';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { SystemProgram, TransactionError } from '@solana/web3.js';
+import { config } from '../config/env.js';
+import { programErrorInfo } from './idl.js';
+
+export interface RelayFailure {
+  status: number;
+  code: string;
+  /** Fixed, user-safe text; never RPC or program output */
+  error: string;
+  /** INSTRUCTION_FAILED: the failing instruction and, when the error is structured, its variant name */
+  instruction?: number;
+  reason?: string;
+}
+
+function instructionFailed(instruction: number, reason?: string): RelayFailure {
+  return {
+    status: 400,
+    code: 'INSTRUCTION_FAILED',
+    error: `Instruction ${instruction} failed`,
+    instruction,
+    ...(reason ? { reason } : {}),
+  };
+}
+
+/** Shade ErrorCode variants in declaration order; anchor numbers them from 6000 */
+const SHADE_ERROR_NAMES = [
+  'Unauthorized',
+  'ExtDataHashMismatch',
+  'UnknownRoot',
+  'InvalidPublicAmountData',
+  'InsufficientFundsForWithdrawal',
+  'InsufficientFundsForFee',
+  'InvalidProof',
+  'InvalidFee',
+  'InvalidExtAmount',
+  'PublicAmountCalculationError',
+  'ArithmeticOverflow',
+  'DepositLimitExceeded',
+  'InvalidFeeRate',
+  'InvalidFeeRecipient',
+  'InvalidFeeAmount',
+  'RecipientMismatch',
+  'MerkleTreeFull',
+  'InvalidTokenAccount',
+  'InvalidMintAddress',
+  'InvalidTokenAccountMintAddress',
+];
+const SHADE_ERROR_OFFSET = 6000;
+
+const SHADE_ERRORS: Record<string, RelayFailure> = {
+  Unauthorized: { status: 400, code: 'UNAUTHORIZED', error: 'Not authorized to perform this action' },
+  ExtDataHashMismatch: {
+    status: 400,
+    code: 'EXT_DATA_MISMATCH',
+    error: 'Recipient, fee recipient or encrypted outputs do not match the proof ext data',
+  },
+  UnknownRoot: { status: 409, code: 'UNKNOWN_ROOT', error: 'Proof root is not in the on-chain root history; prove again' },
+  InvalidPublicAmountData: { status: 400, code: 'INVALID_PUBLIC_AMOUNT', error: 'Proof public amount is invalid' },
+  InsufficientFundsForWithdrawal: { status: 400, code: 'INSUFFICIENT_POOL_FUNDS', error: 'Pool has insufficient funds for this withdrawal' },
+  InsufficientFundsForFee: { status: 400, code: 'INSUFFICIENT_FUNDS_FOR_FEE', error: 'Insufficient funds for the fee' },
+  InvalidProof: { status: 400, code: 'INVALID_PROOF', error: 'Proof is invalid' },
+  InvalidFee: { status: 400, code: 'INVALID_FEE', error: 'Fee is out of range' },
+  InvalidExtAmount: { status: 400, code: 'INVALID_EXT_AMOUNT', error: 'ext_amount is out of range' },
+  PublicAmountCalculationError: { status: 400, code: 'INVALID_PUBLIC_AMOUNT', error: 'Public amount overflows' },
+  ArithmeticOverflow: { status: 400, code: 'ARITHMETIC_OVERFLOW', error: 'Amounts overflow' },
+  DepositLimitExceeded: { status: 400, code: 'DEPOSIT_LIMIT_EXCEEDED', error: 'Deposit exceeds the pool deposit limit' },
+  InvalidFeeRate: { status: 400, code: 'INVALID_FEE_RATE', error: 'Fee rate is out of range' },
+  InvalidFeeRecipient: { status: 400, code: 'INVALID_FEE_RECIPIENT', error: 'Fee recipient does not match the global config' },
+  InvalidFeeAmount: { status: 400, code: 'FEE_TOO_LOW', error: 'Fee is below the withdrawal fee rate' },
+  RecipientMismatch: { status: 400, code: 'RECIPIENT_MISMATCH', error: 'Recipient does not match the proof ext data' },
+  MerkleTreeFull: { status: 409, code: 'MERKLE_TREE_FULL', error: 'Merkle tree is full' },
+  InvalidTokenAccount: { status: 400, code: 'INVALID_TOKEN_ACCOUNT', error: 'Token account is not owned by the token program' },
+  InvalidMintAddress: { status: 400, code: 'INVALID_MINT', error: 'Mint address is not valid for this pool' },
+  InvalidTokenAccountMintAddress: { status: 400, code: 'INVALID_TOKEN_ACCOUNT', error: 'Token account has the wrong mint' },
+};
+
+const ANCHOR_ERRORS: Record<number, RelayFailure> = {
+  [LangErrorCode.AccountNotInitialized]: {
+    status: 400,
+    code: 'ACCOUNT_NOT_INITIALIZED',
+    error: 'An account the program expects does not exist',
+  },
+  [LangErrorCode.ConstraintSeeds]: { status: 400, code: 'INVALID_ACCOUNT', error: 'An account does not match its derived address' },
+  [LangErrorCode.AccountOwnedByWrongProgram]: { status: 400, code: 'INVALID_ACCOUNT', error: 'An account has the wrong owner' },
+  [LangErrorCode.AccountDiscriminatorMismatch]: { status: 400, code: 'INVALID_ACCOUNT', error: 'An account has the wrong type' },
+  [LangErrorCode.InstructionDidNotDeserialize]: { status: 400, code: 'INVALID_INSTRUCTION', error: 'Instruction data does not decode' },
+};
+
+/** SystemError codes */
+const SYSTEM_ACCOUNT_ALREADY_IN_USE = 0;
+const SYSTEM_RESULT_WITH_NEGATIVE_LAMPORTS = 1;
+
+const TOKEN_ERRORS: Record<number, RelayFailure> = {
+  1: { status: 400, code: 'INSUFFICIENT_TOKEN_BALANCE', error: 'Insufficient token balance' },
+  3: { status: 400, code: 'INVALID_TOKEN_ACCOUNT', error: 'Token account has the wrong mint' },
+  4: { status: 400, code: 'INVALID_TOKEN_ACCOUNT', error: 'Token account has the wrong owner' },
+};
+
+const NULLIFIER_ALREADY_SPENT: RelayFailure = {
+  status: 409,
+  code: 'NULLIFIER_ALREADY_SPENT',
+  error: 'A note in this proof has already been spent',
+};
+
+function insufficientSol(relayerPays: boolean): RelayFailure {
+  return relayerPays
+    ? { status: 503, code: 'RELAYER_UNDERFUNDED', error: 'Relayer has insufficient SOL for transaction fees and rent' }
+    : { status: 400, code: 'INSUFFICIENT_FUNDS', error: 'Insufficient SOL for the transaction, its fees or rent' };
+}
+
+/** Outermost and innermost programs that logged a failure */
+function failedPrograms(logs: string[] | null | undefined): { outer: string | null; inner: string | null } {
+  const failed = (logs ?? [])
+    .map((line) => /^Program (\w+) failed/.exec(line)?.[1])
+    .filter((id): id is string => Boolean(id));
+  return { outer: failed[failed.length - 1] ?? null, inner: failed[0] ?? null };
+}
+
+/** Name of a Shade custom error code, from the loaded IDL or the built-in list */
+export function shadeErrorName(code: number): string | null {
+  return programErrorInfo(code)?.name ?? SHADE_ERROR_NAMES[code - SHADE_ERROR_OFFSET] ?? null;
+}
+
+function customError(code: number, logs: string[] | null | undefined, relayerPays: boolean): RelayFailure {
+  const { outer, inner } = failedPrograms(logs);
+  const program = inner ?? outer ?? config.programId.toBase58();
+  const shadeFailed = (outer ?? config.programId.toBase58()) === config.programId.toBase58();
+  if (program === TOKEN_PROGRAM_ID.toBase58()) {
+    return TOKEN_ERRORS[code] ?? { status: 400, code: 'TOKEN_PROGRAM_ERROR', error: `Token program error ${code}` };
+  }
+  if (program === ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()) {
+    return { status: 400, code: 'INVALID_TOKEN_ACCOUNT', error: 'Associated token account could not be created' };
+  }
+  if (program === SystemProgram.programId.toBase58() || (shadeFailed && code < 100)) {
+    // The program creates the nullifier PDAs; creating one that exists means the note was spent
+    if (code === SYSTEM_ACCOUNT_ALREADY_IN_USE && shadeFailed) return NULLIFIER_ALREADY_SPENT;
+    if (code === SYSTEM_RESULT_WITH_NEGATIVE_LAMPORTS) return insufficientSol(relayerPays);
+    return { status: 400, code: 'SYSTEM_PROGRAM_ERROR', error: `System program error ${code}` };
+  }
+  if (!shadeFailed) return { status: 400, code: 'PROGRAM_ERROR', error: `Program ${program} failed with error ${code}` };
+  if (code >= SHADE_ERROR_OFFSET) {
+    const name = shadeErrorName(code);
+    return (name && SHADE_ERRORS[name]) || { status: 400, code: 'PROGRAM_ERROR', error: `Shade program error ${name ?? code}` };
+  }
+  const anchorError = programErrorInfo(code);
+  return ANCHOR_ERRORS[code] ?? { status: 400, code: 'PROGRAM_ERROR', error: `Shade program error ${anchorError?.name ?? code}` };
+}
+
+/**
+ * Map a transaction error (from a simulation or a signature status) with its logs. `relayerPays`
+ * turns the fee payer running out of SOL into a 503 instead of the client's 400.
+ */
+export function classifyTransactionError(
+  err: TransactionError | string,
+  logs: string[] | null | undefined,
+  relayerPays: boolean
+): RelayFailure {
+  if (typeof err === 'object' && err !== null) {
+    const failed = (err as { InstructionError?: [number, unknown] }).InstructionError;
+    if (failed) {
+      const custom = (failed[1] as { Custom?: number } | null)?.Custom;
+      if (custom !== undefined) return customError(custom, logs, relayerPays);
+      // Built-in errors are a bare variant name, or an object keyed by it (e.g. { BorshIoError: '...' })
+      const reason = typeof failed[1] === 'string' ? failed[1] : Object.keys(failed[1] ?? {})[0];
+      return instructionFailed(failed[0], reason);
+    }
+    if ('InsufficientFundsForRent' in err) return insufficientSol(relayerPays);
+  }
+  switch (err) {
+    case 'BlockhashNotFound':
+      return { status: 409, code: 'BLOCKHASH_EXPIRED', error: 'Transaction blockhash expired; build it again' };
+    case 'AlreadyProcessed':
+      return { status: 409, code: 'ALREADY_PROCESSED', error: 'Transaction has already been processed' };
+    case 'AccountNotFound':
+    case 'InsufficientFundsForFee':
+      return insufficientSol(relayerPays);
+    case 'SignatureFailure':
+    case 'MissingSignatureForFee':
+      return { status: 400, code: 'INVALID_SIGNATURE', error: 'Transaction signature is missing or invalid' };
+    default:
+      return { status: 400, code: 'TRANSACTION_FAILED', error: 'Transaction failed' };
+  }
+}
+
+/** RPC preflight messages that carry no structured error */
+const PREFLIGHT_ERRORS: Array<[RegExp, TransactionError | string]> = [
+  [/blockhash not found/i, 'BlockhashNotFound'],
+  [/no record of a prior credit/i, 'AccountNotFound'],
+  [/insufficient funds for (fee|rent)/i, 'InsufficientFundsForFee'],
+  [/already been processed/i, 'AlreadyProcessed'],
+  [/signature verification fail/i, 'SignatureFailure'],
+];
+
+/**
+ * Map an error thrown while sending (web3.js SendTransactionError and RPC preflight failures).
+ * null when it is not a transaction failure, e.g. the RPC is unreachable.
+ */
+export function classifyRelayError(error: unknown, relayerPays: boolean): RelayFailure | null {
+  const err = error as { transactionError?: { message?: string; logs?: string[] }; message?: string; logs?: string[] };
+  const message = err?.transactionError?.message ?? err?.message ?? '';
+  const logs = err?.transactionError?.logs ?? err?.logs;
+  const instruction = /Error processing Instruction (\d+): (.*)$/im.exec(message);
+  if (instruction) {
+    const custom = /custom program error: 0x([0-9a-f]+)/i.exec(instruction[2]);
+    if (custom) return customError(parseInt(custom[1], 16), logs, relayerPays);
+    return instructionFailed(parseInt(instruction[1], 10));
+  }
+  if (/too large/i.test(message)) {
+    return { status: 400, code: 'TRANSACTION_TOO_LARGE', error: 'Transaction exceeds the Solana size limit' };
+  }
+  for (const [pattern, mapped] of PREFLIGHT_ERRORS) {
+    if (pattern.test(message)) return classifyTransactionError(mapped, logs, relayerPays);
+  }
+  return null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Accounts of the transact / transact_spl instructions the relayer signs for /withdraw and
+ * /withdraw/spl, derived here from the token and the decoded proof's input nullifiers rather than taken
+ * from the request. Clients may still send them (older SDKs do), but each one must equal the
+ * derived account.
+ */
+import { PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { config } from '../config/env.js';
+import { getGlobalConfigPDA, getNullifierPDA, getTreeAccountPDA, getTreeTokenAccountPDA } from './contract.js';
+import type { TransactInstruction } from './instructions.js';
+
+/**
+ * nullifier0/1 are created for the two inputs; nullifier2/3 are the swapped seed pairs, which the
+ * program requires not to exist so a nullifier cannot be spent again under the other seed.
+ */
+export interface NullifierAccounts {
+  nullifier0PDA: PublicKey;
+  nullifier1PDA: PublicKey;
+  nullifier2PDA: PublicKey;
+  nullifier3PDA: PublicKey;
+}
+
+export interface SolWithdrawAccounts extends NullifierAccounts {
+  treeAccount: PublicKey;
+  treeTokenAccount: PublicKey;
+  globalConfigAccount: PublicKey;
+  feeRecipientAccount: PublicKey;
+}
+
+export interface SplWithdrawAccounts extends NullifierAccounts {
+  treeAccount: PublicKey;
+  globalConfigAccount: PublicKey;
+  treeAta: PublicKey;
+  recipientAta: PublicKey;
+  feeRecipientTokenAccount: PublicKey;
+}
+
+function deriveNullifierAccounts([first, second]: [Buffer, Buffer]): NullifierAccounts {
+  return {
+    nullifier0PDA: getNullifierPDA(0, first),
+    nullifier1PDA: getNullifierPDA(1, second),
+    nullifier2PDA: getNullifierPDA(0, second),
+    nullifier3PDA: getNullifierPDA(1, first),
+  };
+}
+
+/** Accounts for a `transact` instruction; null for transact_spl */
+export function deriveSolWithdrawAccounts(ix: TransactInstruction): SolWithdrawAccounts | null {
+  if (ix.name !== 'transact') return null;
+  return {
+    ...deriveNullifierAccounts(ix.inputNullifiers),
+    treeAccount: getTreeAccountPDA(),
+    treeTokenAccount: getTreeTokenAccountPDA(),
+    globalConfigAccount: getGlobalConfigPDA(),
+    feeRecipientAccount: config.feeRecipient,
+  };
+}
+
+/** Accounts for a `transact_spl` instruction; null for transact */
+export function deriveSplWithdrawAccounts(
+  ix: TransactInstruction,
+  mint: PublicKey,
+  recipient: PublicKey
+): SplWithdrawAccounts | null {
+  if (ix.name !== 'transact_spl') return null;
+  const treeAccount = getTreeAccountPDA(mint);
+  return {
+    ...deriveNullifierAccounts(ix.inputNullifiers),
+    treeAccount,
+    globalConfigAccount: getGlobalConfigPDA(),
+    // Owned by the tree PDA, which is off the ed25519 curve
+    treeAta: getAssociatedTokenAddressSync(mint, treeAccount, true),
+    recipientAta: getAssociatedTokenAddressSync(mint, recipient, true),
+    feeRecipientTokenAccount: getAssociatedTokenAddressSync(mint, config.feeRecipient, true),
+  };
+}
+
+/**
+ * First account the client sent that differs from the derived one, as `{ field, expected }`;
+ * null when every supplied account matches. Fields the client left out are not checked.
+ */
+export function findAccountMismatch(
+  supplied: Record<string, unknown>,
+  derived: object
+): { field: string; expected: string } | null {
+  for (const [field, pubkey] of Object.entries(derived) as Array<[string, PublicKey]>) {
+    const value = supplied[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (value !== pubkey.toBase58()) return { field, expected: pubkey.toBase58() };
+  }
+  return null;
+}
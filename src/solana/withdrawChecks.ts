@@ -0,0 +1,103 @@
+/**
+ * Checks run on a decoded transact / transact_spl instruction before the relayer signs it and pays
+ * the fees. They mirror the program's own checks, so a request the program would reject fails with
+ * a 400 here instead of costing the relayer a failed transaction. The proof itself is left to the
+ * program's verifier.
+ */
+import { createHash } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { FIELD_SIZE } from '../lib/field.js';
+import { fetchGlobalConfig, fetchRootHistory, getRootAge } from './contract.js';
+import type { TransactInstruction } from './instructions.js';
+
+/** Fee rates and margins are in basis points */
+const BASIS_POINTS = 10_000n;
+
+export interface WithdrawCheckFailure {
+  error: string;
+  code: string;
+  [detail: string]: unknown;
+}
+
+/** The accounts the program hashes into ext data together with the instruction's amounts and outputs */
+export interface ExtDataAccounts {
+  recipient: PublicKey;
+  feeRecipient: PublicKey;
+  mint: PublicKey;
+}
+
+function borshVec(bytes: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+/**
+ * The program's ext data hash: sha256 of borsh ExtData { recipient, ext_amount: i64, encrypted_output1,
+ * encrypted_output2, fee: u64, fee_recipient, mint_address }, compared modulo the field.
+ */
+export function extDataHash(ix: TransactInstruction, accounts: ExtDataAccounts): bigint {
+  const extAmount = Buffer.alloc(8);
+  extAmount.writeBigInt64LE(ix.extAmount);
+  const fee = Buffer.alloc(8);
+  fee.writeBigUInt64LE(ix.fee);
+  const serialized = Buffer.concat([
+    accounts.recipient.toBuffer(),
+    extAmount,
+    borshVec(ix.encryptedOutput1),
+    borshVec(ix.encryptedOutput2),
+    fee,
+    accounts.feeRecipient.toBuffer(),
+    accounts.mint.toBuffer(),
+  ]);
+  return BigInt('0x' + createHash('sha256').update(serialized).digest('hex')) % FIELD_SIZE;
+}
+
+/** Lowest fee the program accepts for withdrawing `amount` */
+export function minWithdrawalFee(amount: bigint, withdrawalFeeRate: number, feeErrorMargin: number): bigint {
+  const expected = (amount * BigInt(withdrawalFeeRate)) / BASIS_POINTS;
+  return (expected * (BASIS_POINTS - BigInt(feeErrorMargin))) / BASIS_POINTS;
+}
+
+/**
+ * null when the instruction may be signed; otherwise why not. `treeMint` selects the pool (undefined
+ * for SOL). Reads the global config and the tree's root history.
+ */
+export async function checkWithdraw(
+  ix: TransactInstruction,
+  accounts: ExtDataAccounts,
+  treeMint?: PublicKey
+): Promise<WithdrawCheckFailure | null> {
+  // The relayer signs as the depositor: a positive ext_amount would be paid from its own funds
+  if (ix.extAmount > 0n) {
+    return { error: 'ext_amount must not be positive on a withdraw', code: 'NOT_A_WITHDRAWAL' };
+  }
+  const publicAmount = (((ix.extAmount - ix.fee) % FIELD_SIZE) + FIELD_SIZE) % FIELD_SIZE;
+  if (publicAmount.toString() !== ix.publicAmount) {
+    return { error: 'Proof public amount does not match ext_amount and fee', code: 'INVALID_PUBLIC_AMOUNT' };
+  }
+  if (extDataHash(ix, accounts) !== BigInt('0x' + ix.extDataHash.toString('hex')) % FIELD_SIZE) {
+    return {
+      error: 'Recipient, fee recipient or encrypted outputs do not match the proof ext data',
+      code: 'EXT_DATA_MISMATCH',
+    };
+  }
+
+  const [globalConfig, history] = await Promise.all([fetchGlobalConfig(), fetchRootHistory(treeMint, 'confirmed')]);
+  const minFee = minWithdrawalFee(-ix.extAmount, globalConfig.withdrawalFeeRate, globalConfig.feeErrorMargin);
+  if (ix.fee < minFee) {
+    return {
+      error: 'Fee is below the withdrawal fee rate',
+      code: 'FEE_TOO_LOW',
+      fee: ix.fee.toString(),
+      minFee: minFee.toString(),
+    };
+  }
+  if (history === null) {
+    return { error: 'Merkle tree not initialized for this token', code: 'TREE_NOT_INITIALIZED' };
+  }
+  if (getRootAge(history, ix.root) < 0) {
+    return { error: 'Proof root is not in the on-chain root history', code: 'UNKNOWN_ROOT', root: ix.root };
+  }
+  return null;
+}
@@ -0,0 +1,247 @@
+/**
+ * Live commitment feed behind /stream/commitments (SSE and WebSocket).
+ *
+ * There is one tail per token and read level, alive while it has subscribers. Every
+ * STREAM_POLL_INTERVAL_MS, and right after this process's indexer writes rows (notifyFeed), it syncs
+ * the in-memory tree (../merkle) and publishes the leaves the tree gained, read from the DB once for
+ * all subscribers, followed by a root event when the root moved. When the tree was rebuilt
+ * (orphaned rows, root mismatch) it publishes a reorg event from the first leaf that changed and
+ * then the leaves from there again.
+ */
+import { config } from '../config/env.js';
+import { getStore, visibleStatuses, CommitmentLevel, CommitmentRecord } from '../db/index.js';
+import type { MerkleTree } from '../lib/merkleTree.js';
+import { syncTree } from '../merkle/index.js';
+
+const PAGE_SIZE = 1000;
+
+export type FeedEvent =
+  | { type: 'commitment'; index: number; commitment: string; encrypted_output: string }
+  | { type: 'root'; root: string; nextIndex: number }
+  /** Leaves from fromIndex on were replaced; drop them, the new ones follow */
+  | { type: 'reorg'; fromIndex: number };
+
+/** One connected client, as seen by the feed */
+export interface FeedSink {
+  /** Queue an event; false when the client's buffer is full */
+  send(event: FeedEvent): boolean;
+  /** Resolves once the client has caught up on its buffer or disconnected */
+  drained(): Promise<void>;
+  closed(): boolean;
+}
+
+interface Subscriber {
+  sink: FeedSink;
+  /** Next commitment index this subscriber expects */
+  next: number;
+  /** Live events held back while the subscriber replays history */
+  queue: FeedEvent[] | null;
+}
+
+interface Feed {
+  token: string;
+  level: CommitmentLevel;
+  subscribers: Set<Subscriber>;
+  /** The tree published so far; a different object after syncTree means the tree was rebuilt */
+  tree: MerkleTree | null;
+  /** Leaves published so far */
+  size: number;
+  root: string | null;
+  timer: NodeJS.Timeout;
+  ticking: Promise<void> | null;
+  again: boolean;
+}
+
+const feeds = new Map<string, Feed>();
+
+function feedKey(token: string, level: CommitmentLevel): string {
+  return `${token}:${level}`;
+}
+
+function toEvent(row: CommitmentRecord): FeedEvent {
+  return {
+    type: 'commitment',
+    index: row.commitment_index,
+    commitment: row.commitment,
+    encrypted_output: row.encrypted_output,
+  };
+}
+
+function deliver(sub: Subscriber, event: FeedEvent): void {
+  if (sub.queue) {
+    sub.queue.push(event);
+    return;
+  }
+  if (event.type === 'commitment') {
+    if (event.index < sub.next) return;
+    sub.next = event.index + 1;
+  } else if (event.type === 'reorg') {
+    if (event.fromIndex >= sub.next) return;
+    sub.next = event.fromIndex;
+  }
+  sub.sink.send(event);
+}
+
+function publish(feed: Feed, event: FeedEvent): void {
+  for (const sub of feed.subscribers) deliver(sub, event);
+}
+
+/** First index at which the rebuilt tree differs from the published one */
+function firstDifference(published: MerkleTree, size: number, rebuilt: MerkleTree): number {
+  const common = Math.min(size, rebuilt.size());
+  for (let i = 0; i < common; i++) {
+    if (published.leaf(i) !== rebuilt.leaf(i)) return i;
+  }
+  return common;
+}
+
+async function publishRange(feed: Feed, from: number, to: number): Promise<void> {
+  const statuses = visibleStatuses(feed.level);
+  let next = from;
+  while (next < to) {
+    const rows = await getStore().listCommitments({
+      token: feed.token,
+      statuses,
+      fromIndex: next,
+      toIndex: to,
+      limit: PAGE_SIZE,
+    });
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      if (row.commitment_index < next) continue;
+      next = row.commitment_index + 1;
+      publish(feed, toEvent(row));
+    }
+  }
+}
+
+async function tick(feed: Feed): Promise<void> {
+  const tree = await syncTree(feed.token, feed.level);
+  if (!feed.tree) {
+    // First sync: subscribers replay history themselves, only new leaves are published
+    feed.tree = tree;
+    feed.size = tree.size();
+    feed.root = tree.root().toString();
+    return;
+  }
+  let from = feed.size;
+  if (tree !== feed.tree) {
+    from = firstDifference(feed.tree, feed.size, tree);
+    if (from < feed.size) publish(feed, { type: 'reorg', fromIndex: from });
+    feed.tree = tree;
+  }
+  const to = tree.size();
+  if (to > from) await publishRange(feed, from, to);
+  feed.size = to;
+  const root = tree.root().toString();
+  if (root !== feed.root) {
+    feed.root = root;
+    publish(feed, { type: 'root', root, nextIndex: to });
+  }
+}
+
+/** Run a tick now, or right after the one in flight */
+function schedule(feed: Feed): Promise<void> {
+  if (feed.ticking) {
+    feed.again = true;
+    return feed.ticking;
+  }
+  feed.ticking = tick(feed).finally(() => {
+    feed.ticking = null;
+    if (feed.again && feeds.get(feedKey(feed.token, feed.level)) === feed) {
+      feed.again = false;
+      schedule(feed).catch((e) => console.error(`Commitment feed [${feed.token}] error:`, e));
+    }
+  });
+  return feed.ticking;
+}
+
+function getFeed(token: string, level: CommitmentLevel): Feed {
+  const key = feedKey(token, level);
+  let feed = feeds.get(key);
+  if (!feed) {
+    const created: Feed = {
+      token,
+      level,
+      subscribers: new Set(),
+      tree: null,
+      size: 0,
+      root: null,
+      timer: setInterval(() => {
+        schedule(created).catch((e) => console.error(`Commitment feed [${token}] error:`, e));
+      }, config.streamPollIntervalMs),
+      ticking: null,
+      again: false,
+    };
+    feeds.set(key, created);
+    feed = created;
+  }
+  return feed;
+}
+
+function dropSubscriber(feed: Feed, sub: Subscriber): void {
+  feed.subscribers.delete(sub);
+  if (feed.subscribers.size === 0 && feeds.get(feedKey(feed.token, feed.level)) === feed) {
+    clearInterval(feed.timer);
+    feeds.delete(feedKey(feed.token, feed.level));
+  }
+}
+
+async function replay(feed: Feed, sub: Subscriber): Promise<void> {
+  const statuses = visibleStatuses(feed.level);
+  while (sub.next < feed.size && !sub.sink.closed()) {
+    const rows = await getStore().listCommitments({
+      token: feed.token,
+      statuses,
+      fromIndex: sub.next,
+      toIndex: feed.size,
+      limit: PAGE_SIZE,
+    });
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      if (row.commitment_index < sub.next) continue;
+      sub.next = row.commitment_index + 1;
+      if (!sub.sink.send(toEvent(row))) await sub.sink.drained();
+      if (sub.sink.closed()) return;
+    }
+  }
+}
+
+/**
+ * Send `sink` every leaf from `fromIndex` (null: from the current tip), the current root, then live
+ * events until the returned function is called. Rejects if the first sync or the replay fails.
+ */
+export async function subscribe(
+  token: string,
+  level: CommitmentLevel,
+  fromIndex: number | null,
+  sink: FeedSink
+): Promise<() => void> {
+  const feed = getFeed(token, level);
+  const sub: Subscriber = { sink, next: 0, queue: [] };
+  feed.subscribers.add(sub);
+  try {
+    // The first sync only records the tip; a failed one is retried here and by the poll
+    if (!feed.tree) await schedule(feed);
+    sub.next = fromIndex ?? feed.size;
+    await replay(feed, sub);
+  } catch (e) {
+    dropSubscriber(feed, sub);
+    throw e;
+  }
+  const queued = sub.queue ?? [];
+  sub.queue = null;
+  if (feed.root !== null && !queued.some((e) => e.type === 'root')) {
+    deliver(sub, { type: 'root', root: feed.root, nextIndex: feed.size });
+  }
+  for (const event of queued) deliver(sub, event);
+  return () => dropSubscriber(feed, sub);
+}
+
+/** Wake the token's feeds after this process indexed or orphaned rows, instead of waiting for the poll. */
+export function notifyFeed(token: string): void {
+  for (const level of ['confirmed', 'finalized'] as const) {
+    const feed = feeds.get(feedKey(token, level));
+    if (feed) schedule(feed).catch((e) => console.error(`Commitment feed [${token}] error:`, e));
+  }
+}
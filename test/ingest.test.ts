@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { config } from '../src/config/env.js';
+import { processLogLines } from '../src/indexer/ingest.js';
+
+const SHADE = config.programId.toBase58();
+const OTHER = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+/** The two commitment events from the raw webhook fixture */
+const [fixture] = JSON.parse(readFileSync('fixtures/webhook/raw-transact.json', 'utf-8'));
+const dataLines = (fixture.meta.logMessages as string[]).filter((l) => l.startsWith('Program data: '));
+
+describe('processLogLines', () => {
+  it('reads events logged by Shade', () => {
+    const logs = [`Program ${SHADE} invoke [1]`, ...dataLines, `Program ${SHADE} success`];
+    assert.deepEqual(
+      processLogLines(logs, 'sig').map((r) => r.commitment_index),
+      [9000000, 9000001]
+    );
+  });
+
+  it('reads events when another program invokes Shade', () => {
+    const logs = [
+      `Program ${OTHER} invoke [1]`,
+      `Program ${SHADE} invoke [2]`,
+      ...dataLines,
+      `Program ${SHADE} success`,
+      `Program ${OTHER} success`,
+    ];
+    assert.equal(processLogLines(logs, 'sig').length, 2);
+  });
+
+  it('ignores data logged by a program Shade calls', () => {
+    const logs = [
+      `Program ${SHADE} invoke [1]`,
+      `Program ${OTHER} invoke [2]`,
+      ...dataLines,
+      `Program ${OTHER} success`,
+      `Program ${SHADE} success`,
+    ];
+    assert.equal(processLogLines(logs, 'sig').length, 0);
+  });
+
+  it('ignores data logged by other top-level programs and outside any invocation', () => {
+    const logs = [
+      ...dataLines,
+      `Program ${OTHER} invoke [1]`,
+      ...dataLines,
+      `Program ${OTHER} failed: custom program error: 0x1`,
+      `Program ${SHADE} invoke [1]`,
+      `Program ${SHADE} success`,
+    ];
+    assert.equal(processLogLines(logs, 'sig').length, 0);
+  });
+});
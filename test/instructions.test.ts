@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import anchor from '@coral-xyz/anchor';
+import { IdlDecodeError } from '../src/solana/idl.js';
+import { bytes32ToDecimal, decodeTransact, readInputNullifiers } from '../src/solana/instructions.js';
+import { shadeCoder } from './shadeIdl.js';
+
+const { BN } = anchor;
+
+/** `length` bytes counting up from `seed`, so every field has distinct content */
+function pattern(seed: number, length: number): Buffer {
+  return Buffer.from(Array.from({ length }, (_, i) => (seed + i) % 256));
+}
+
+const proof = {
+  proof_a: [...pattern(1, 64)],
+  proof_b: [...pattern(2, 128)],
+  proof_c: [...pattern(3, 64)],
+  root: [...pattern(4, 32)],
+  public_amount: [...pattern(5, 32)],
+  ext_data_hash: [...pattern(6, 32)],
+  input_nullifiers: [[...pattern(7, 32)], [...pattern(8, 32)]],
+  output_commitments: [[...pattern(9, 32)], [...pattern(10, 32)]],
+};
+const encryptedOutput1 = pattern(11, 90);
+const encryptedOutput2 = pattern(12, 75);
+
+function encode(name: 'transact' | 'transact_spl'): Buffer {
+  return shadeCoder.instruction.encode(name, {
+    proof,
+    ext_data_minified: { ext_amount: new BN(-1_500_000_000), fee: new BN(4_500_000) },
+    encrypted_output1: encryptedOutput1,
+    encrypted_output2: encryptedOutput2,
+  });
+}
+
+describe('decodeTransact (built-in layout)', () => {
+  it('places nullifiers at 360, commitments at 424, ext data at 488 and outputs at 504', () => {
+    const data = encode('transact');
+    assert.deepEqual(data.subarray(360, 392), Buffer.from(proof.input_nullifiers[0]));
+    assert.deepEqual(data.subarray(424, 456), Buffer.from(proof.output_commitments[0]));
+    assert.equal(data.readBigInt64LE(488), -1_500_000_000n);
+    assert.equal(data.readUInt32LE(504), encryptedOutput1.length);
+  });
+
+  it('round-trips a transact instruction encoded by anchor', () => {
+    const ix = decodeTransact(encode('transact'));
+    assert.ok(ix);
+    assert.equal(ix.name, 'transact');
+    assert.deepEqual(ix.proofA, Buffer.from(proof.proof_a));
+    assert.deepEqual(ix.proofB, Buffer.from(proof.proof_b));
+    assert.deepEqual(ix.proofC, Buffer.from(proof.proof_c));
+    assert.equal(ix.root, bytes32ToDecimal(Buffer.from(proof.root)));
+    assert.equal(ix.publicAmount, bytes32ToDecimal(Buffer.from(proof.public_amount)));
+    assert.deepEqual(ix.extDataHash, Buffer.from(proof.ext_data_hash));
+    assert.deepEqual(ix.inputNullifiers, proof.input_nullifiers.map((n) => Buffer.from(n)));
+    assert.deepEqual(
+      ix.outputCommitments,
+      proof.output_commitments.map((c) => bytes32ToDecimal(Buffer.from(c)))
+    );
+    assert.equal(ix.extAmount, -1_500_000_000n);
+    assert.equal(ix.fee, 4_500_000n);
+    assert.deepEqual(ix.encryptedOutput1, encryptedOutput1);
+    assert.deepEqual(ix.encryptedOutput2, encryptedOutput2);
+  });
+
+  it('names transact_spl by its discriminator', () => {
+    assert.equal(decodeTransact(encode('transact_spl'))?.name, 'transact_spl');
+  });
+
+  it('reads the input nullifiers without a full decode', () => {
+    assert.deepEqual(readInputNullifiers(encode('transact')), proof.input_nullifiers.map((n) => Buffer.from(n)));
+  });
+
+  it('rejects truncated data and trailing bytes', () => {
+    const data = encode('transact');
+    assert.throws(() => decodeTransact(data.subarray(0, data.length - 1)), IdlDecodeError);
+    assert.throws(() => decodeTransact(Buffer.concat([data, Buffer.alloc(1)])), IdlDecodeError);
+  });
+
+  it('returns null for other instructions', () => {
+    const data = encode('transact');
+    data[0] ^= 0xff;
+    assert.equal(decodeTransact(data), null);
+  });
+});
@@ -0,0 +1,134 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ensureSchema, getStore } from '../src/db/index.js';
+import { appendCommitments, syncTree } from '../src/merkle/index.js';
+import { createMerkleTree, hashLeftRight, MERKLE_DEPTH, zeroValue } from '../src/lib/merkleTree.js';
+
+/** circomlib Poseidon test vectors */
+const POSEIDON_1_2 = 7853200120776062878684798364095072458815029376092732009249414926327459813530n;
+const POSEIDON_0_0 = 14744269619966411208579211824598458697587494354926760081771325075741142829156n;
+/** Root of the empty depth-26 tree, recorded from this implementation */
+const EMPTY_ROOT = 8163447297445169709687354538480474434591144168767135863541048304198280615192n;
+
+/** The program's insert: walk up from the new leaf, keeping the last left node per level */
+function programTree() {
+  const subtrees = Array.from({ length: MERKLE_DEPTH }, (_, level) => zeroValue(level));
+  let nextIndex = 0;
+  let root = zeroValue(MERKLE_DEPTH);
+  return {
+    insert(leaf: bigint): void {
+      let node = leaf;
+      let index = nextIndex;
+      for (let level = 0; level < MERKLE_DEPTH; level++) {
+        if (index % 2 === 0) {
+          subtrees[level] = node;
+          node = hashLeftRight(node, zeroValue(level));
+        } else {
+          node = hashLeftRight(subtrees[level], node);
+        }
+        index = Math.floor(index / 2);
+      }
+      nextIndex++;
+      root = node;
+    },
+    root: () => root,
+    subtrees: () => subtrees.map(String),
+  };
+}
+
+function foldPath(leaf: bigint, pathElements: string[], pathIndices: number[]): bigint {
+  return pathElements.reduce(
+    (node, sibling, level) =>
+      pathIndices[level] === 0 ? hashLeftRight(node, BigInt(sibling)) : hashLeftRight(BigInt(sibling), node),
+    leaf
+  );
+}
+
+const leaves = Array.from({ length: 11 }, (_, i) => BigInt(i + 1) * 1_000_003n);
+
+describe('merkle tree', () => {
+  it('hashes with BN254 Poseidon', () => {
+    assert.equal(hashLeftRight(1n, 2n), POSEIDON_1_2);
+    assert.equal(zeroValue(1), POSEIDON_0_0);
+  });
+
+  it('starts from the empty depth-26 root', () => {
+    assert.equal(createMerkleTree().root(), EMPTY_ROOT);
+    assert.equal(zeroValue(MERKLE_DEPTH), EMPTY_ROOT);
+  });
+
+  it('matches the program insert leaf by leaf, including its subtrees', () => {
+    const tree = createMerkleTree();
+    const program = programTree();
+    for (const leaf of leaves) {
+      tree.insert(leaf);
+      program.insert(leaf);
+      assert.equal(tree.root(), program.root());
+      assert.deepEqual(tree.frontier(), program.subtrees());
+    }
+  });
+
+  it('gives the same root for batched inserts', () => {
+    const oneByOne = createMerkleTree();
+    leaves.forEach((leaf) => oneByOne.insert(leaf));
+    const batched = createMerkleTree();
+    batched.insertMany(leaves.slice(0, 4));
+    batched.insertMany(leaves.slice(4));
+    assert.equal(batched.root(), oneByOne.root());
+  });
+
+  it('returns paths that fold to the root', () => {
+    const tree = createMerkleTree();
+    tree.insertMany(leaves);
+    leaves.forEach((leaf, index) => {
+      const { pathElements, pathIndices } = tree.path(index);
+      assert.equal(pathElements.length, MERKLE_DEPTH);
+      assert.equal(foldPath(leaf, pathElements, pathIndices), tree.root());
+    });
+    assert.throws(() => tree.path(leaves.length));
+  });
+});
+
+describe('merkle index', () => {
+  before(async () => {
+    await ensureSchema();
+  });
+  after(async () => {
+    await getStore().close();
+  });
+
+  const row = (index: number, status: 'confirmed' | 'finalized') => ({
+    token: 'sol',
+    commitment_index: index,
+    commitment: leaves[index].toString(),
+    encrypted_output: `aa${index}`,
+    mint_address: null,
+    transaction_signature: `sig${index}`,
+    slot: 100 + index,
+    status,
+  });
+
+  it('seeds from the contiguous prefix and per read level', async () => {
+    // Index 3 is missing, so the confirmed tree stops at 3 leaves until it shows up
+    await getStore().insertCommitments([row(0, 'finalized'), row(1, 'finalized'), row(2, 'confirmed'), row(4, 'confirmed')]);
+    const confirmed = await syncTree('sol', 'confirmed');
+    const finalized = await syncTree('sol', 'finalized');
+    assert.equal(confirmed.size(), 3);
+    assert.equal(finalized.size(), 2);
+
+    const expected = createMerkleTree();
+    expected.insertMany(leaves.slice(0, 3));
+    assert.equal(confirmed.root(), expected.root());
+  });
+
+  it('continues once the gap is filled', async () => {
+    await getStore().insertCommitments([row(3, 'confirmed')]);
+    appendCommitments([row(3, 'confirmed')]);
+    const confirmed = await syncTree('sol', 'confirmed');
+    assert.equal(confirmed.size(), 5);
+
+    const expected = createMerkleTree();
+    expected.insertMany(leaves.slice(0, 5));
+    assert.equal(confirmed.root(), expected.root());
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * The transact / transact_spl part of the Shade IDL, written from the program's Proof,
+ * ExtDataMinified and ExtData structs. Tests encode with anchor's BorshCoder against it, so the
+ * built-in offsets and the hand-rolled ext data serialization are checked by a second encoder.
+ */
+import { createHash } from 'crypto';
+import { BorshCoder, Idl } from '@coral-xyz/anchor';
+import { config } from '../src/config/env.js';
+
+function discriminator(name: string): number[] {
+  return [...createHash('sha256').update(`global:${name}`).digest().subarray(0, 8)];
+}
+
+const bytes32 = { array: ['u8', 32] } as const;
+
+const transactArgs = [
+  { name: 'proof', type: { defined: { name: 'Proof' } } },
+  { name: 'ext_data_minified', type: { defined: { name: 'ExtDataMinified' } } },
+  { name: 'encrypted_output1', type: 'bytes' },
+  { name: 'encrypted_output2', type: 'bytes' },
+];
+
+export const SHADE_IDL = {
+  address: config.programId.toBase58(),
+  metadata: { name: 'shade', version: '0.0.0-test', spec: '0.1.0' },
+  instructions: [
+    { name: 'transact', discriminator: discriminator('transact'), accounts: [], args: transactArgs },
+    { name: 'transact_spl', discriminator: discriminator('transact_spl'), accounts: [], args: transactArgs },
+  ],
+  types: [
+    {
+      name: 'Proof',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'proof_a', type: { array: ['u8', 64] } },
+          { name: 'proof_b', type: { array: ['u8', 128] } },
+          { name: 'proof_c', type: { array: ['u8', 64] } },
+          { name: 'root', type: bytes32 },
+          { name: 'public_amount', type: bytes32 },
+          { name: 'ext_data_hash', type: bytes32 },
+          { name: 'input_nullifiers', type: { array: [bytes32, 2] } },
+          { name: 'output_commitments', type: { array: [bytes32, 2] } },
+        ],
+      },
+    },
+    {
+      name: 'ExtDataMinified',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'ext_amount', type: 'i64' },
+          { name: 'fee', type: 'u64' },
+        ],
+      },
+    },
+    {
+      name: 'ExtData',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'recipient', type: 'pubkey' },
+          { name: 'ext_amount', type: 'i64' },
+          { name: 'encrypted_output1', type: 'bytes' },
+          { name: 'encrypted_output2', type: 'bytes' },
+          { name: 'fee', type: 'u64' },
+          { name: 'fee_recipient', type: 'pubkey' },
+          { name: 'mint_address', type: 'pubkey' },
+        ],
+      },
+    },
+  ],
+} as unknown as Idl;
+
+export const shadeCoder = new BorshCoder(SHADE_IDL);
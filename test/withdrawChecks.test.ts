@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import anchor from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { config } from '../src/config/env.js';
+import { FIELD_SIZE } from '../src/lib/field.js';
+import type { TransactInstruction } from '../src/solana/instructions.js';
+import { deriveSplWithdrawAccounts } from '../src/solana/withdrawAccounts.js';
+import { ExtDataAccounts, extDataHash } from '../src/solana/withdrawChecks.js';
+import { shadeCoder } from './shadeIdl.js';
+
+const { BN } = anchor;
+
+const RECIPIENT = new PublicKey('GykHjnHqwNsFmyY2wFT1drprpm1SZWR69CKPMUSFZBvH');
+const FEE_RECIPIENT = new PublicKey('37aE2MTeWyDLogD4KbBHmLp9A2XWddqfTbAAfWfQYm7U');
+const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+function withdrawal(name: TransactInstruction['name']): TransactInstruction {
+  return {
+    name,
+    proofA: Buffer.alloc(64),
+    proofB: Buffer.alloc(128),
+    proofC: Buffer.alloc(64),
+    root: '0',
+    publicAmount: '0',
+    extDataHash: Buffer.alloc(32),
+    inputNullifiers: [Buffer.alloc(32, 1), Buffer.alloc(32, 2)],
+    outputCommitments: ['0', '0'],
+    extAmount: -2_000_000n,
+    fee: 7_000n,
+    encryptedOutput1: Buffer.from('first encrypted output'),
+    encryptedOutput2: Buffer.from('second encrypted output'),
+  };
+}
+
+/** sha256 of ExtData as anchor's borsh encoder lays it out, reduced into the field */
+function anchorExtDataHash(ix: TransactInstruction, accounts: ExtDataAccounts): bigint {
+  const serialized = shadeCoder.types.encode('ExtData', {
+    recipient: accounts.recipient,
+    ext_amount: new BN(ix.extAmount.toString()),
+    encrypted_output1: ix.encryptedOutput1,
+    encrypted_output2: ix.encryptedOutput2,
+    fee: new BN(ix.fee.toString()),
+    fee_recipient: accounts.feeRecipient,
+    mint_address: accounts.mint,
+  });
+  return BigInt('0x' + createHash('sha256').update(serialized).digest('hex')) % FIELD_SIZE;
+}
+
+describe('extDataHash', () => {
+  it('matches the borsh ExtData encoding', () => {
+    const ix = withdrawal('transact_spl');
+    const accounts = { recipient: RECIPIENT, feeRecipient: FEE_RECIPIENT, mint: USDC_MINT };
+    assert.equal(extDataHash(ix, accounts), anchorExtDataHash(ix, accounts));
+  });
+
+  it('keeps its pinned value', () => {
+    // Recorded from this implementation, not from a landed transaction: a change here changes
+    // which withdraws the relayer accepts
+    const ix = withdrawal('transact_spl');
+    assert.equal(
+      extDataHash(ix, { recipient: RECIPIENT, feeRecipient: FEE_RECIPIENT, mint: USDC_MINT }).toString(),
+      '11937493811070684672607381129788124661560516305751897121199052220831503124544'
+    );
+  });
+
+  it('hashes the fee recipient token account on SPL withdraws', () => {
+    const ix = withdrawal('transact_spl');
+    const accounts = deriveSplWithdrawAccounts(ix, USDC_MINT, RECIPIENT);
+    assert.ok(accounts);
+    assert.ok(accounts.feeRecipientTokenAccount.equals(getAssociatedTokenAddressSync(USDC_MINT, config.feeRecipient, true)));
+    const withAta = extDataHash(ix, { recipient: RECIPIENT, feeRecipient: accounts.feeRecipientTokenAccount, mint: USDC_MINT });
+    const withWallet = extDataHash(ix, { recipient: RECIPIENT, feeRecipient: config.feeRecipient, mint: USDC_MINT });
+    assert.notEqual(withAta, withWallet);
+  });
+});